@@ -1,4 +1,4 @@
-const { app, BrowserWindow, screen } = require('electron');
+const { app, BrowserWindow, desktopCapturer, ipcMain, screen } = require('electron');
 const path = require('path');
 
 function createWindow() {
@@ -25,6 +25,10 @@ function createWindow() {
   // win.webContents.openDevTools();
 }
 
+// desktopCapturer is main-process only; the renderer asks for capture sources over IPC
+// (channel name shared with src/services/captureSources.ts)
+ipcMain.handle('desktop-capturer-get-sources', (_event, options) => desktopCapturer.getSources(options));
+
 app.whenReady().then(createWindow);
 
 app.on('window-all-closed', () => {
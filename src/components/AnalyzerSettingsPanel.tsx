@@ -0,0 +1,73 @@
+import React from 'react';
+import { AnalyzerProvider, AnalyzerSettings } from '../types';
+import { ANALYZER_PROVIDERS } from '../lib/preferences';
+import { ANALYZER_LABELS, isAnalyzerConfigured } from '../services/analyzers';
+import { XIcon } from './IconSymbols';
+
+interface AnalyzerSettingsPanelProps {
+  settings: AnalyzerSettings;
+  onChange: (settings: AnalyzerSettings) => void;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string; value: string; placeholder?: string; secret?: boolean; onChange: (value: string) => void }> = ({ label, value, placeholder, secret, onChange }) => (
+  <label className="flex flex-col gap-0.5 text-neutral-400">
+    {label}
+    <input
+      type={secret ? 'password' : 'text'}
+      value={value}
+      placeholder={placeholder}
+      spellCheck={false}
+      onChange={e => onChange(e.target.value)}
+      className="bg-neutral-800 rounded px-1.5 py-1 text-white outline-none"
+    />
+  </label>
+);
+
+// Floating settings for the AI button: which analyzer reads the map, and how to reach it
+const AnalyzerSettingsPanel: React.FC<AnalyzerSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const setGemini = (change: Partial<AnalyzerSettings['gemini']>) => onChange({ ...settings, gemini: { ...settings.gemini, ...change } });
+  const setOpenAi = (change: Partial<AnalyzerSettings['openai']>) => onChange({ ...settings, openai: { ...settings.openai, ...change } });
+
+  return (
+    <div className="absolute top-2 right-2 w-64 bg-neutral-900/95 border border-neutral-700 rounded shadow-2xl backdrop-blur-md z-40 text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-neutral-800">
+        <span className="font-bold text-amber-500 tracking-wider">AI ANALYZER</span>
+        <button onClick={onClose} className="p-0.5 text-neutral-500 hover:text-white"><XIcon size={12} /></button>
+      </div>
+      <div className="flex flex-col gap-2 p-2">
+        <label className="flex flex-col gap-0.5 text-neutral-400">
+          Provider
+          <select
+            value={settings.provider}
+            onChange={e => onChange({ ...settings, provider: e.target.value as AnalyzerProvider })}
+            className="bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-200 outline-none"
+          >
+            {ANALYZER_PROVIDERS.map(provider => <option key={provider} value={provider}>{ANALYZER_LABELS[provider]}</option>)}
+          </select>
+        </label>
+        {settings.provider === 'gemini' && (
+          <>
+            <Field label="API key" secret value={settings.gemini.apiKey} placeholder={process.env.API_KEY ? 'Using key from .env' : ''} onChange={apiKey => setGemini({ apiKey })} />
+            <Field label="Model" value={settings.gemini.model} onChange={model => setGemini({ model })} />
+          </>
+        )}
+        {settings.provider === 'openai' && (
+          <>
+            <Field label="Base URL" value={settings.openai.baseUrl} placeholder="https://api.openai.com/v1" onChange={baseUrl => setOpenAi({ baseUrl })} />
+            <Field label="API key" secret value={settings.openai.apiKey} placeholder="Not needed for most local servers" onChange={apiKey => setOpenAi({ apiKey })} />
+            <Field label="Model" value={settings.openai.model} placeholder="Must accept images" onChange={model => setOpenAi({ model })} />
+          </>
+        )}
+        {settings.provider === 'mock' && (
+          <p className="text-[10px] text-neutral-500">Cycles through a fixed set of alerts without sending the map anywhere.</p>
+        )}
+        {!isAnalyzerConfigured(settings) && (
+          <p className="text-[10px] text-red-400">Fill in the fields above to enable the AI button.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyzerSettingsPanel;
@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+import { CropRegion } from '../types';
+import { fitRect } from '../lib/geometry';
+import { onVideoFrames } from '../lib/videoFrames';
+
+interface CapturePanelProps {
+  name: string;
+  videoStream: MediaStream;
+  cropRegion: CropRegion; // frame pixels
+}
+
+const DEFAULT_HEIGHT = 120;
+
+// View-only mirror of one HUD area. Annotations belong to the main map, so there is no input handling here.
+// The panel height can be dragged (CSS resize); the frame is letterboxed into whatever space it has.
+const CapturePanel: React.FC<CapturePanelProps> = ({ name, videoStream, cropRegion }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(document.createElement('video'));
+
+  useEffect(() => {
+    const video = videoRef.current;
+    video.muted = true;
+    video.srcObject = videoStream;
+    video.play().catch(console.error);
+    return () => {
+      video.pause();
+      video.srcObject = null;
+    };
+  }, [videoStream]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const video = videoRef.current;
+    if (!canvas || !ctx) return;
+
+    // Redrawn on new video frames, crop changes and resizes only
+    const render = () => {
+      if (containerRef.current) {
+        const { clientWidth, clientHeight } = containerRef.current;
+        if (canvas.width !== clientWidth || canvas.height !== clientHeight) {
+          canvas.width = clientWidth;
+          canvas.height = clientHeight;
+        }
+      }
+
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      if (video.readyState === video.HAVE_ENOUGH_DATA && cropRegion.width > 0 && cropRegion.height > 0) {
+        const rect = fitRect(cropRegion.width / cropRegion.height, canvas.width, canvas.height);
+        ctx.drawImage(video, cropRegion.x, cropRegion.y, cropRegion.width, cropRegion.height, rect.x, rect.y, rect.w, rect.h);
+      }
+    };
+
+    render();
+    const stopFrames = onVideoFrames(video, render);
+    const resizeObserver = new ResizeObserver(render);
+    if (containerRef.current) resizeObserver.observe(containerRef.current);
+
+    return () => {
+      stopFrames();
+      resizeObserver.disconnect();
+    };
+    // The crop is recomputed from fractions on every parent render, so depend on its values
+  }, [videoStream, cropRegion.x, cropRegion.y, cropRegion.width, cropRegion.height]);
+
+  return (
+    <div className="relative shrink-0 border border-neutral-800 rounded overflow-hidden resize-y min-h-[40px] bg-black" style={{ height: DEFAULT_HEIGHT }}>
+      <div ref={containerRef} className="absolute inset-0">
+        <canvas ref={canvasRef} className="block" />
+      </div>
+      <span className="absolute top-0.5 left-1 text-[10px] font-bold text-neutral-400 bg-black/60 px-1 rounded pointer-events-none">{name}</span>
+    </div>
+  );
+};
+
+export default CapturePanel;
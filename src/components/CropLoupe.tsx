@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { CropRegion, Point } from '../types';
+import { fitRect } from '../lib/geometry';
+import { onVideoFrames } from '../lib/videoFrames';
+
+interface CropLoupeProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  crop: CropRegion; // frame pixels
+  // Frame point to magnify (the pointer while dragging); the loupe is hidden when null
+  focus: Point | null;
+}
+
+const SIZE = 140;
+const ZOOM = 4;
+
+// Setup-mode helper: a magnifier for placing the crop edges pixel-exactly, and a live preview of the cropped output
+const CropLoupe: React.FC<CropLoupeProps> = ({ videoRef, crop, focus }) => {
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const loupe = loupeRef.current?.getContext('2d');
+    const preview = previewRef.current?.getContext('2d');
+    const video = videoRef.current;
+    if (!preview || !video) return;
+
+    // Redrawn on new video frames and when the crop or focus changes
+    const render = () => {
+      preview.fillStyle = '#000';
+      preview.fillRect(0, 0, SIZE, SIZE);
+      const frame = video.readyState >= video.HAVE_CURRENT_DATA ? video : null;
+
+      if (frame && crop.width > 0 && crop.height > 0) {
+        const rect = fitRect(crop.width / crop.height, SIZE, SIZE);
+        preview.drawImage(frame, crop.x, crop.y, crop.width, crop.height, rect.x, rect.y, rect.w, rect.h);
+      }
+
+      if (loupe && focus) {
+        const span = SIZE / ZOOM;
+        const sx = focus.x - span / 2;
+        const sy = focus.y - span / 2;
+        loupe.imageSmoothingEnabled = false;
+        loupe.fillStyle = '#000';
+        loupe.fillRect(0, 0, SIZE, SIZE);
+        if (frame) loupe.drawImage(frame, sx, sy, span, span, 0, 0, SIZE, SIZE);
+
+        // Crop outline and crosshair, in loupe pixels
+        loupe.strokeStyle = 'rgb(245, 158, 11)';
+        loupe.lineWidth = 1;
+        loupe.strokeRect((crop.x - sx) * ZOOM + 0.5, (crop.y - sy) * ZOOM + 0.5, crop.width * ZOOM, crop.height * ZOOM);
+        loupe.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+        loupe.beginPath();
+        loupe.moveTo(SIZE / 2, 0);
+        loupe.lineTo(SIZE / 2, SIZE);
+        loupe.moveTo(0, SIZE / 2);
+        loupe.lineTo(SIZE, SIZE / 2);
+        loupe.stroke();
+      }
+    };
+
+    render();
+    return onVideoFrames(video, render);
+    // Panel crops are recomputed from fractions on every parent render, so depend on the values
+  }, [videoRef, crop.x, crop.y, crop.width, crop.height, focus]);
+
+  return (
+    <div className="absolute bottom-3 right-3 flex gap-2 z-30 pointer-events-none">
+      {focus && (
+        <figure className="bg-neutral-950/90 border border-neutral-700 rounded p-1">
+          <canvas ref={loupeRef} width={SIZE} height={SIZE} className="block" />
+          <figcaption className="text-[10px] text-neutral-500 text-center">{Math.round(focus.x)}, {Math.round(focus.y)}</figcaption>
+        </figure>
+      )}
+      <figure className="bg-neutral-950/90 border border-neutral-700 rounded p-1">
+        <canvas ref={previewRef} width={SIZE} height={SIZE} className="block" />
+        <figcaption className="text-[10px] text-neutral-500 text-center">Preview</figcaption>
+      </figure>
+    </div>
+  );
+};
+
+export default CropLoupe;
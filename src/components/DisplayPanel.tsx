@@ -0,0 +1,63 @@
+import React from 'react';
+import { CvdMode, ImageFilters } from '../types';
+import { CVD_LABELS, CVD_MODES, DEFAULT_IMAGE_FILTERS, FILTER_RANGES, isNeutral } from '../lib/imageFilters';
+import { XIcon } from './IconSymbols';
+
+interface DisplayPanelProps {
+  filters: ImageFilters;
+  onChange: (filters: ImageFilters) => void;
+  onClose: () => void;
+}
+
+const SLIDERS: { key: keyof typeof FILTER_RANGES; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'saturation', label: 'Saturation' },
+  { key: 'sharpen', label: 'Sharpen' }
+];
+
+// Floating panel with picture adjustments for the mirrored map
+const DisplayPanel: React.FC<DisplayPanelProps> = ({ filters, onChange, onClose }) => (
+  <div className="absolute top-2 right-2 w-56 bg-neutral-900/95 border border-neutral-700 rounded shadow-2xl backdrop-blur-md z-40 text-xs">
+    <div className="flex items-center justify-between px-2 py-1.5 border-b border-neutral-800">
+      <span className="font-bold text-amber-500 tracking-wider">DISPLAY</span>
+      <div className="flex items-center gap-1">
+        <button onClick={() => onChange(DEFAULT_IMAGE_FILTERS)} disabled={isNeutral(filters)} className="px-1.5 text-[10px] text-neutral-400 hover:text-white font-bold disabled:opacity-30 disabled:hover:text-neutral-400">RESET</button>
+        <button onClick={onClose} className="p-0.5 text-neutral-500 hover:text-white"><XIcon size={12} /></button>
+      </div>
+    </div>
+    <div className="flex flex-col gap-2 p-2">
+      {SLIDERS.map(({ key, label }) => (
+        <label key={key} className="flex flex-col gap-0.5 text-neutral-400">
+          <span className="flex justify-between">
+            {label}
+            <span className="text-neutral-500">{key === 'sharpen' ? filters.sharpen.toFixed(1) : `${Math.round(filters[key] * 100)}%`}</span>
+          </span>
+          <input
+            type="range"
+            {...FILTER_RANGES[key]}
+            value={filters[key]}
+            onChange={e => onChange({ ...filters, [key]: Number(e.target.value) })}
+            onDoubleClick={() => onChange({ ...filters, [key]: DEFAULT_IMAGE_FILTERS[key] })}
+            className="accent-amber-500"
+          />
+        </label>
+      ))}
+      <label className="flex flex-col gap-0.5 text-neutral-400">
+        Colour vision
+        <select
+          value={filters.cvd}
+          onChange={e => onChange({ ...filters, cvd: e.target.value as CvdMode })}
+          className="bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-200 outline-none"
+        >
+          {CVD_MODES.map(mode => <option key={mode} value={mode}>{CVD_LABELS[mode]}</option>)}
+        </select>
+      </label>
+      {filters.cvd !== 'none' && (
+        <p className="text-[10px] text-neutral-500">Map colours are remapped and the drawing palette uses colour-blind safe colours.</p>
+      )}
+    </div>
+  </div>
+);
+
+export default DisplayPanel;
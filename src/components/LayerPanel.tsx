@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Layer, LayerView } from '../types';
+import { DEFAULT_LAYER_VIEW, isLayerEmpty } from '../lib/layers';
+import { EyeIcon, EyeOffIcon, LockIcon, UnlockIcon, TrashIcon, XIcon } from './IconSymbols';
+
+interface LayerPanelProps {
+  layers: Layer[];
+  views: Record<string, LayerView>;
+  activeLayerId: string;
+  onSelect: (id: string) => void;
+  onToggleVisible: (id: string) => void;
+  onToggleLocked: (id: string) => void;
+  onMove: (id: string, direction: 1 | -1) => void;
+  onClear: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+// Floating layer list. The top row is the top of the stack (drawn last).
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  layers,
+  views,
+  activeLayerId,
+  onSelect,
+  onToggleVisible,
+  onToggleLocked,
+  onMove,
+  onClear,
+  onRename,
+  onAdd,
+  onRemove,
+  onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="absolute top-2 right-2 w-56 bg-neutral-900/95 border border-neutral-700 rounded shadow-2xl backdrop-blur-md z-40 text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-neutral-800">
+        <span className="font-bold text-amber-500 tracking-wider">LAYERS</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onAdd} className="px-1.5 text-neutral-400 hover:text-white font-bold">+</button>
+          <button onClick={onClose} className="p-0.5 text-neutral-500 hover:text-white"><XIcon size={12} /></button>
+        </div>
+      </div>
+      <ul>
+        {[...layers].reverse().map((layer, i) => {
+          const view = views[layer.id] || DEFAULT_LAYER_VIEW;
+          const isActive = layer.id === activeLayerId;
+          return (
+            <li
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`flex items-center gap-1 px-2 py-1 cursor-pointer ${isActive ? 'bg-amber-900/30 text-white' : 'text-neutral-400 hover:bg-neutral-800'}`}
+            >
+              <button onClick={e => { e.stopPropagation(); onToggleVisible(layer.id); }} className="hover:text-white">
+                {view.visible ? <EyeIcon size={14} /> : <EyeOffIcon size={14} />}
+              </button>
+              <button onClick={e => { e.stopPropagation(); onToggleLocked(layer.id); }} className={`hover:text-white ${view.locked ? 'text-amber-500' : ''}`}>
+                {view.locked ? <LockIcon size={14} /> : <UnlockIcon size={14} />}
+              </button>
+              {editingId === layer.id ? (
+                <input
+                  autoFocus
+                  defaultValue={layer.name}
+                  onClick={e => e.stopPropagation()}
+                  onBlur={e => { onRename(layer.id, e.target.value.trim() || layer.name); setEditingId(null); }}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    else if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-neutral-800 px-1 text-white outline-none"
+                />
+              ) : (
+                <span onDoubleClick={() => setEditingId(layer.id)} className={`flex-1 truncate ${view.visible ? '' : 'line-through opacity-50'}`}>{layer.name}</span>
+              )}
+              <button onClick={e => { e.stopPropagation(); onMove(layer.id, 1); }} disabled={i === 0} className="px-0.5 hover:text-white disabled:opacity-20">▲</button>
+              <button onClick={e => { e.stopPropagation(); onMove(layer.id, -1); }} disabled={i === layers.length - 1} className="px-0.5 hover:text-white disabled:opacity-20">▼</button>
+              <button onClick={e => { e.stopPropagation(); onClear(layer.id); }} disabled={isLayerEmpty(layer) || view.locked} title="Clear layer" className="hover:text-red-400 disabled:opacity-20">
+                <TrashIcon size={14} />
+              </button>
+              {layers.length > 1 && (
+                <button onClick={e => { e.stopPropagation(); onRemove(layer.id); }} title="Delete layer" className="hover:text-red-400"><XIcon size={12} /></button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LayerPanel;
@@ -1,35 +1,165 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { CropRegion, DrawingPath, Point, ToolType, Marker } from '../types';
+import { CropRegion, Drawing, Expiring, ImageFilters, Layer, MapOrientation, Point, Ping, ToolType, Marker, MarkerType, ShapeDrawing, TextLabel } from '../types';
+import { RenderRect, erasePath, fitRect, fromView, hitTestDrawing, mapScale, orientBounds, orientDrawing, orientedAspect, screenDistance, simplifyStroke, toScreen, toView } from '../lib/geometry';
+import { drawDrawing, drawMarker, drawPing, orientContext } from '../lib/drawingRenderer';
+import { EMPTY_SELECTION, Selection, deleteSelection, duplicateSelection, isSelected, isSelectionEmpty, mergeSelection, pickAt, pruneSelection, selectInLasso, selectionBounds, transformSelection } from '../lib/selection';
+import { isExpired, nextExpiryChange } from '../lib/expiry';
+import { imageCrop } from '../lib/referenceMap';
+import { createId } from '../lib/ids';
+import { onVideoFrames } from '../lib/videoFrames';
+import { applyImageFilters, isNeutral } from '../lib/imageFilters';
+
+// Eraser size and marker hit area, in screen pixels
+const ERASER_RADIUS = 12;
+const MARKER_HIT_RADIUS = 10;
+// Pen input smoothing: each new point moves this fraction of the way toward the pointer (1 = raw input)
+const SMOOTHING = 0.5;
+// Points closer than this many pixels to the previous one are skipped while drawing
+const MIN_POINT_SPACING = 2;
+// Pixel tolerance for simplifying a stroke when it is committed
+const SIMPLIFY_TOLERANCE = 1;
+const TOOL_CURSORS: Partial<Record<ToolType, string>> = {
+  [ToolType.ERASER]: 'cursor-none',
+  [ToolType.TEXT]: 'cursor-text',
+  [ToolType.SELECT]: 'cursor-default'
+};
+
+// Selection box padding and scale handle size, in screen pixels
+const SELECTION_PADDING = 6;
+const HANDLE_SIZE = 10;
+// Palm rejection: touches are ignored this long after the stylus was last seen, or when the contact is this large (px)
+const PALM_REJECT_MS = 1000;
+const PALM_CONTACT_SIZE = 40;
+// Text label size as a fraction of the map height
+const TEXT_SIZE = 0.04;
+
+// Zoom limits (1 = fitted to the canvas) and wheel sensitivity per deltaY pixel
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const WHEEL_ZOOM_SPEED = 0.002;
+// Overview inset shown while zoomed in: longest side and distance from the canvas corner, in pixels
+const INSET_SIZE = 140;
+const INSET_MARGIN = 8;
+// Filtered frames are processed at the source resolution, but no larger than this on the longest side
+const MAX_FILTER_SIZE = 1024;
+
+const SHAPE_TOOLS: Partial<Record<ToolType, ShapeDrawing['kind']>> = {
+  [ToolType.ARROW]: 'arrow',
+  [ToolType.ELLIPSE]: 'ellipse',
+  [ToolType.RECT]: 'rect'
+};
 
 interface MapCanvasProps {
   videoStream: MediaStream | null;
   cropRegion: CropRegion;
-  drawings: DrawingPath[];
-  setDrawings: React.Dispatch<React.SetStateAction<DrawingPath[]>>;
+  // Reference mode: this image is drawn whole in place of the cropped video frame.
+  // Annotations stay normalized to the map area, so they carry over between modes.
+  backgroundImage?: HTMLImageElement | null;
+  // Display rotation and mirroring. Pointer input is mapped back, so annotations are stored unrotated.
+  orientation: MapOrientation;
+  // Brightness, contrast, sharpening and colour-vision remapping for the map picture (not the annotations)
+  imageFilters: ImageFilters;
+  // Visible layers in stacking order, for rendering
+  layers: Layer[];
+  // Active layer contents; all edits go here
+  activeLayerId: string;
+  drawings: Drawing[];
+  setDrawings: React.Dispatch<React.SetStateAction<Drawing[]>>;
   markers: Marker[];
   setMarkers: React.Dispatch<React.SetStateAction<Marker[]>>;
+  // Active layer is hidden or locked: only pings are allowed
+  readOnly: boolean;
+  pings: Ping[];
+  setPings: React.Dispatch<React.SetStateAction<Ping[]>>;
+  // Lifetime of new pings, and of new drawings/markers when set (null = permanent), in ms
+  pingTtl: number;
+  annotationTtl: number | null;
   activeTool: ToolType;
   selectedColor: string;
+  strokeWidth: number;
+  strokeOpacity: number;
+  markerType: MarkerType;
+  // Upper limit for redraws per second; 0 redraws as often as there is something new to show
+  fpsCap: number;
   onCanvasRef: (canvas: HTMLCanvasElement | null) => void;
+  // Source video element, for exporting clean frames without overlays
+  onVideoRef?: (video: HTMLVideoElement | null) => void;
+  // Bracket multi-event edits (an eraser drag) so they undo as one step
+  onEditBegin?: () => void;
+  onEditEnd?: () => void;
 }
 
 const MapCanvas: React.FC<MapCanvasProps> = ({
   videoStream,
   cropRegion,
+  backgroundImage,
+  orientation,
+  imageFilters,
+  layers,
+  activeLayerId,
   drawings,
   setDrawings,
   markers,
   setMarkers,
+  readOnly,
+  pings,
+  setPings,
+  pingTtl,
+  annotationTtl,
   activeTool,
   selectedColor,
-  onCanvasRef
+  strokeWidth,
+  strokeOpacity,
+  markerType,
+  fpsCap,
+  onCanvasRef,
+  onVideoRef,
+  onEditBegin,
+  onEditEnd
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement>(document.createElement('video'));
   const [isDrawing, setIsDrawing] = useState(false);
-  const [currentPath, setCurrentPath] = useState<Point[]>([]);
+  // The stroke or shape currently being dragged out, not yet committed to drawings
+  const [draft, setDraft] = useState<Drawing | null>(null);
+  // Pending text label: where it goes and what has been typed so far
+  const [textEntry, setTextEntry] = useState<{ point: Point; value: string } | null>(null);
+  // Mirrors textEntry so Enter and the blur that follows can't both commit the same label
+  const textEntryRef = useRef<{ point: Point; value: string } | null>(null);
+
+  // Last known pointer position (normalized), read by the render loop for the eraser outline
+  const cursorRef = useRef<Point | null>(null);
+  const lastErasePointRef = useRef<Point | null>(null);
+  const draggedMarkerIdRef = useRef<string | null>(null);
+
+  // Select tool: current selection, lasso being drawn, and the move/scale drag in progress
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [lasso, setLasso] = useState<Point[] | null>(null);
+  const selectDragRef = useRef<{
+    mode: 'move' | 'scale';
+    start: Point;
+    anchor: Point;
+    original: { drawings: Drawing[]; markers: Marker[] };
+  } | null>(null);
+
+  // Pointer tracking: only the pointer that started an interaction may continue it
+  const activePointerIdRef = useRef<number | null>(null);
+  const lastPenTimeRef = useRef(0);
+  // Touch points currently down (client px), and the two-finger pan in progress
+  const touchesRef = useRef(new Map<number, Point>());
+  const panRef = useRef<{ centroid: Point } | null>(null);
+  // Pixel offset of the map from its letterboxed position, moved by two-finger or middle-button pan
+  const viewOffsetRef = useRef<Point>({ x: 0, y: 0 });
+  // Zoom factor of the map over its letterboxed size. The ref is read by the render loop and event
+  // handlers; the state mirrors it (and whether the view was panned) for the reset button.
+  const zoomRef = useRef(1);
+  const [zoom, setZoom] = useState(1);
+  const [isPanned, setIsPanned] = useState(false);
+  const mousePanRef = useRef<{ pointerId: number; last: Point } | null>(null);
+  // Where the overview inset was last drawn (canvas px), or null when hidden
+  const insetRectRef = useRef<RenderRect | null>(null);
 
   // Keep track of the actual rendered area of the map on the canvas
   // We use a ref so we can access it synchronously in event handlers without stale closures
@@ -40,6 +170,11 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
     onCanvasRef(canvasRef.current);
   }, [onCanvasRef]);
 
+  useEffect(() => {
+    onVideoRef?.(videoRef.current);
+    return () => onVideoRef?.(null);
+  }, [onVideoRef]);
+
   // Initialize Video Stream
   useEffect(() => {
     const video = videoRef.current;
@@ -53,16 +188,115 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
     };
   }, [videoStream]);
 
-  // Animation Loop: Draw Video Frame + Drawings
+  // Everything the renderer reads, refreshed on every React render. The render loop below lives for the
+  // component's lifetime and only draws when something changed, so it reads these instead of closing over props.
+  const sceneRef = useRef({ cropRegion, backgroundImage, orientation, imageFilters, layers, draft, pings, activeTool, selection, lasso, drawings, markers, fpsCap, videoStream });
+  sceneRef.current = { cropRegion, backgroundImage, orientation, imageFilters, layers, draft, pings, activeTool, selection, lasso, drawings, markers, fpsCap, videoStream };
+  // Asks the render loop for a redraw; set up by the loop effect
+  const requestDrawRef = useRef<() => void>(() => {});
+  const requestDraw = () => requestDrawRef.current();
+
+  // Any prop or state change may change the picture
+  useEffect(() => requestDraw());
+
+  // Render Loop: draws on demand, i.e. on a new video frame, a scene change, a resize, or while something
+  // animates (pings, fading annotations). Committed annotations are cached on an offscreen canvas.
   useEffect(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
     const video = videoRef.current;
-    if (!canvas || !ctx) return;
+    const cache = document.createElement('canvas');
+    const cacheCtx = cache.getContext('2d');
+    // The map picture with image filters applied, at source resolution
+    const frame = document.createElement('canvas');
+    const frameCtx = frame.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx || !cacheCtx || !frameCtx) return;
+
+    // What the annotation cache was drawn for, and when it needs redrawing anyway (expiry fades)
+    let cacheKey: { layers: Layer[]; orientation: MapOrientation; rect: RenderRect } | null = null;
+    let cacheValidUntil = Infinity;
+    // A reference image only needs filtering again when it or the filters change
+    let frameKey: { image: HTMLImageElement; filters: ImageFilters } | null = null;
+
+    let frameRequest: number | null = null;
+    let waitTimer: number | undefined;
+    let lastDrawTime = -Infinity;
+
+    const schedule = () => {
+      if (frameRequest === null) frameRequest = requestAnimationFrame(onAnimationFrame);
+    };
+
+    // Wait for the next scheduled frame, or until the FPS cap allows another draw
+    const scheduleAt = (time: number) => {
+      clearTimeout(waitTimer);
+      waitTimer = window.setTimeout(() => { waitTimer = undefined; schedule(); }, Math.max(0, time - performance.now()));
+    };
+
+    const onAnimationFrame = (time: number) => {
+      frameRequest = null;
+      const { fpsCap } = sceneRef.current;
+      if (fpsCap > 0 && time - lastDrawTime < 1000 / fpsCap - 1) {
+        scheduleAt(lastDrawTime + 1000 / fpsCap);
+        return;
+      }
+      lastDrawTime = time;
+      render();
+    };
+
+    // Redraw whenever the video presents a new frame (the reference image never changes)
+    const stopVideoFrames = onVideoFrames(video, () => {
+      const { videoStream, backgroundImage } = sceneRef.current;
+      if (videoStream && !backgroundImage) schedule();
+    });
 
-    let animationFrameId: number;
+    const resizeObserver = new ResizeObserver(schedule);
+    if (containerRef.current) resizeObserver.observe(containerRef.current);
+
+    const renderCache = (layers: Layer[], orientation: MapOrientation, rect: RenderRect, now: number) => {
+      if (cache.width !== canvas.width || cache.height !== canvas.height) {
+        cache.width = canvas.width;
+        cache.height = canvas.height;
+      }
+      cacheCtx.clearRect(0, 0, cache.width, cache.height);
+      cacheValidUntil = Infinity;
+
+      // Visible layers (drawings, then markers on top), bottom layer first
+      layers.forEach(layer => {
+        layer.drawings.forEach(drawing => {
+          if (isExpired(drawing, now)) return;
+          drawDrawing(cacheCtx, orientDrawing(drawing, orientation), rect, now);
+          cacheValidUntil = Math.min(cacheValidUntil, nextExpiryChange(drawing, now));
+        });
+        layer.markers.forEach(marker => {
+          if (isExpired(marker, now)) return;
+          drawMarker(cacheCtx, { ...marker, ...toView(marker, orientation) }, rect, now);
+          cacheValidUntil = Math.min(cacheValidUntil, nextExpiryChange(marker, now));
+        });
+      });
+      cacheKey = { layers, orientation, rect };
+    };
+
+    // Copies the map picture into the frame canvas and filters it there, before it is scaled up
+    const renderFrame = (cropRegion: CropRegion, backgroundImage: HTMLImageElement | null | undefined, filters: ImageFilters) => {
+      if (backgroundImage && frameKey?.image === backgroundImage && frameKey.filters === filters) return;
+      const source = backgroundImage ? imageCrop(backgroundImage) : cropRegion;
+      const scale = Math.min(1, MAX_FILTER_SIZE / Math.max(source.width, source.height));
+      const w = Math.max(1, Math.round(source.width * scale));
+      const h = Math.max(1, Math.round(source.height * scale));
+      if (frame.width !== w || frame.height !== h) {
+        frame.width = w;
+        frame.height = h;
+      }
+      frameCtx.drawImage(backgroundImage || video, source.x, source.y, source.width, source.height, 0, 0, w, h);
+      const pixels = frameCtx.getImageData(0, 0, w, h);
+      applyImageFilters(pixels, filters);
+      frameCtx.putImageData(pixels, 0, 0);
+      frameKey = backgroundImage ? { image: backgroundImage, filters } : null;
+    };
 
     const render = () => {
+      const { cropRegion, backgroundImage, orientation, imageFilters, layers, draft, pings, activeTool, selection, lasso, drawings, markers } = sceneRef.current;
+
       // 1. Resize canvas to fit container
       if (containerRef.current) {
         const { clientWidth, clientHeight } = containerRef.current;
@@ -77,35 +311,42 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
       // 3. Calculate Aspect Fit (Letterbox/Pillarbox)
-      // We want to fit cropRegion into canvas without distortion
-      const cropAspect = cropRegion.width / cropRegion.height;
-      const canvasAspect = canvas.width / canvas.height;
-
-      let drawW = canvas.width;
-      let drawH = canvas.height;
-      let drawX = 0;
-      let drawY = 0;
-
-      // If canvas is wider than the crop, we need pillarbox (side bars)
-      // If canvas is taller than the crop, we need letterbox (top/bottom bars)
-      if (canvasAspect > cropAspect) {
-        drawW = canvas.height * cropAspect;
-        drawX = (canvas.width - drawW) / 2;
-      } else {
-        drawH = canvas.width / cropAspect;
-        drawY = (canvas.height - drawH) / 2;
-      }
+      // We want to fit the map area (crop region, or the whole reference image) into canvas without distortion
+      const source = backgroundImage ? imageCrop(backgroundImage) : cropRegion;
+      const aspect = orientedAspect(source.width / source.height, orientation);
+      const fit = fitRect(aspect, canvas.width, canvas.height);
+      const drawX = fit.x + viewOffsetRef.current.x;
+      const drawY = fit.y + viewOffsetRef.current.y;
+      const drawW = fit.w * zoomRef.current;
+      const drawH = fit.h * zoomRef.current;
 
       // Update ref for event handlers
       renderRectRef.current = { x: drawX, y: drawY, w: drawW, h: drawH };
 
-      // 4. Draw Cropped Video Frame
-      if (video.readyState === video.HAVE_ENOUGH_DATA) {
-        ctx.drawImage(
-          video,
-          cropRegion.x, cropRegion.y, cropRegion.width, cropRegion.height, // Source from video
-          drawX, drawY, drawW, drawH // Destination on canvas
-        );
+      // Reference image or cropped video frame, rotated and flipped into place
+      const hasFrame = !!backgroundImage || video.readyState === video.HAVE_ENOUGH_DATA;
+      const filtered = hasFrame && !isNeutral(imageFilters);
+      if (filtered) renderFrame(cropRegion, backgroundImage, imageFilters);
+      const drawMap = (target: RenderRect) => {
+        ctx.save();
+        const map = orientContext(ctx, target, orientation);
+        if (filtered) {
+          ctx.drawImage(frame, map.x, map.y, map.w, map.h);
+        } else if (backgroundImage) {
+          ctx.drawImage(backgroundImage, map.x, map.y, map.w, map.h);
+        } else {
+          ctx.drawImage(
+            video,
+            cropRegion.x, cropRegion.y, cropRegion.width, cropRegion.height, // Source from video
+            map.x, map.y, map.w, map.h // Destination on canvas
+          );
+        }
+        ctx.restore();
+      };
+
+      // 4. Draw Reference Image or Cropped Video Frame
+      if (hasFrame) {
+        drawMap(renderRectRef.current);
       } else {
         ctx.fillStyle = '#111';
         ctx.fillRect(drawX, drawY, drawW, drawH);
@@ -114,154 +355,673 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
         ctx.fillText("Waiting for stream...", drawX + 20, drawY + 40);
       }
 
-      // Helper to transform normalized coordinate to screen coordinate
-      const toScreen = (p: Point) => ({
-        x: drawX + p.x * drawW,
-        y: drawY + p.y * drawH
-      });
+      const rect = renderRectRef.current;
+      const now = Date.now();
+      // Annotations are stored unrotated; everything below is drawn at its displayed position
+      const view = (p: Point) => toScreen(toView(p, orientation), rect);
 
-      // 5. Draw Existing Paths
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
+      // 5. Draw Visible Layers from the cache, redrawing it when they, the view or the canvas size changed
+      const cacheStale = !cacheKey || cacheKey.layers !== layers || cacheKey.orientation !== orientation
+        || cacheKey.rect.x !== rect.x || cacheKey.rect.y !== rect.y || cacheKey.rect.w !== rect.w || cacheKey.rect.h !== rect.h
+        || cache.width !== canvas.width || cache.height !== canvas.height || now >= cacheValidUntil;
+      if (cacheStale) renderCache(layers, orientation, rect, now);
+      ctx.drawImage(cache, 0, 0);
 
-      drawings.forEach(path => {
-        if (path.points.length < 2) return;
-        ctx.beginPath();
-        ctx.strokeStyle = path.color;
-        ctx.lineWidth = path.width; // Fixed pixel width for visibility
-        
-        const p0 = toScreen(path.points[0]);
-        ctx.moveTo(p0.x, p0.y);
-        
-        for (let i = 1; i < path.points.length; i++) {
-          const p = toScreen(path.points[i]);
-          ctx.lineTo(p.x, p.y);
+      // 6. Draw Current Stroke/Shape
+      if (draft) drawDrawing(ctx, orientDrawing(draft, orientation), rect);
+
+      // 7. Draw Pings
+      const livePings = pings.filter(ping => !isExpired(ping, now));
+      livePings.forEach(ping => drawPing(ctx, { ...ping, ...toView(ping, orientation) }, rect, now));
+
+      // 8. Selection Box and Lasso
+      if (activeTool === ToolType.SELECT) {
+        const b = selectionBounds(selection, drawings, markers, mapScale(rect, orientation), SELECTION_PADDING);
+        ctx.save();
+        ctx.strokeStyle = 'rgba(251, 191, 36, 0.9)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+        if (b) {
+          const v = orientBounds(b, orientation);
+          const tl = toScreen({ x: v.minX, y: v.minY }, rect);
+          const br = toScreen({ x: v.maxX, y: v.maxY }, rect);
+          ctx.strokeRect(tl.x, tl.y, br.x - tl.x, br.y - tl.y);
+          ctx.setLineDash([]);
+          ctx.fillStyle = 'rgb(251, 191, 36)';
+          ctx.fillRect(br.x - HANDLE_SIZE / 2, br.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
         }
-        ctx.stroke();
-      });
+        if (lasso && lasso.length > 1) {
+          ctx.setLineDash([4, 3]);
+          ctx.beginPath();
+          lasso.forEach((p, i) => {
+            const s = view(p);
+            if (i === 0) ctx.moveTo(s.x, s.y);
+            else ctx.lineTo(s.x, s.y);
+          });
+          ctx.closePath();
+          ctx.stroke();
+        }
+        ctx.restore();
+      }
 
-      // 6. Draw Current Drawing Path
-      if (currentPath.length > 1) {
+      // 9. Eraser Outline
+      if (activeTool === ToolType.ERASER && cursorRef.current) {
+        const c = view(cursorRef.current);
         ctx.beginPath();
-        ctx.strokeStyle = selectedColor;
-        ctx.lineWidth = 4;
-        
-        const p0 = toScreen(currentPath[0]);
-        ctx.moveTo(p0.x, p0.y);
-
-        for (let i = 1; i < currentPath.length; i++) {
-          const p = toScreen(currentPath[i]);
-          ctx.lineTo(p.x, p.y);
-        }
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 1;
+        ctx.arc(c.x, c.y, ERASER_RADIUS, 0, Math.PI * 2);
         ctx.stroke();
       }
 
-      // 7. Draw Markers
-      markers.forEach(marker => {
-         const screenPos = toScreen(marker);
-         
-         ctx.save();
-         ctx.translate(screenPos.x, screenPos.y);
-         
-         if (marker.type === 'danger') {
-           ctx.fillStyle = 'rgba(239, 68, 68, 0.9)'; // Red
-           ctx.beginPath();
-           ctx.moveTo(0, -10);
-           ctx.lineTo(10, 10);
-           ctx.lineTo(-10, 10);
-           ctx.fill();
-           ctx.fillStyle = 'white';
-           ctx.font = 'bold 12px sans-serif';
-           ctx.textAlign = 'center';
-           ctx.fillText('!', 0, 8);
-         } else if (marker.type === 'move') {
-           ctx.fillStyle = 'rgba(34, 197, 94, 0.9)'; // Green
-           ctx.beginPath();
-           ctx.arc(0, 0, 8, 0, Math.PI * 2);
-           ctx.fill();
-         } else {
-            // Ward/Vision
-            ctx.fillStyle = 'rgba(234, 179, 8, 0.9)'; // Yellow
-            ctx.fillRect(-6, -6, 12, 12);
-         }
-         
-         ctx.restore();
-      });
+      // 10. Overview Inset while zoomed in: the whole map, with the visible part outlined
+      if (zoomRef.current > 1) {
+        const box = fitRect(aspect, INSET_SIZE, INSET_SIZE);
+        const inset = { x: INSET_MARGIN, y: canvas.height - INSET_MARGIN - box.h, w: box.w, h: box.h };
+        insetRectRef.current = inset;
+        ctx.fillStyle = '#111';
+        ctx.fillRect(inset.x, inset.y, inset.w, inset.h);
+        if (hasFrame) drawMap(inset);
+
+        const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+        const x0 = clamp01(-rect.x / rect.w);
+        const y0 = clamp01(-rect.y / rect.h);
+        const x1 = clamp01((canvas.width - rect.x) / rect.w);
+        const y1 = clamp01((canvas.height - rect.y) / rect.h);
+        ctx.lineWidth = 1;
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.strokeRect(inset.x + 0.5, inset.y + 0.5, inset.w - 1, inset.h - 1);
+        ctx.strokeStyle = 'rgb(251, 191, 36)';
+        ctx.strokeRect(inset.x + x0 * inset.w, inset.y + y0 * inset.h, (x1 - x0) * inset.w, (y1 - y0) * inset.h);
+      } else {
+        insetRectRef.current = null;
+      }
+
+      // Keep drawing while something animates; otherwise sleep until the next annotation starts fading
+      if (livePings.length || cacheValidUntil <= now) schedule();
+      else if (cacheValidUntil !== Infinity) scheduleAt(performance.now() + cacheValidUntil - now);
+    };
+
+    requestDrawRef.current = schedule;
+    schedule();
+
+    return () => {
+      requestDrawRef.current = () => {};
+      if (frameRequest !== null) cancelAnimationFrame(frameRequest);
+      stopVideoFrames();
+      clearTimeout(waitTimer);
+      resizeObserver.disconnect();
+    };
+  }, []);
+
+  const updateTextEntry = (entry: { point: Point; value: string } | null) => {
+    textEntryRef.current = entry;
+    setTextEntry(entry);
+  };
+
+  // Abandon half-finished input when switching tools
+  useEffect(() => {
+    setDraft(null);
+    updateTextEntry(null);
+    setSelection(EMPTY_SELECTION);
+    setLasso(null);
+  }, [activeTool]);
+
+  // Selection belongs to the active layer
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [activeLayerId]);
+
+  // Forget selected items that disappeared (undo, erase, expiry)
+  useEffect(() => {
+    setSelection(prev => pruneSelection(prev, drawings, markers));
+  }, [drawings, markers]);
+
+  const deleteSelected = () => {
+    if (isSelectionEmpty(selection)) return;
+    const next = deleteSelection(selection, drawings, markers);
+    onEditBegin?.();
+    setDrawings(next.drawings);
+    setMarkers(next.markers);
+    onEditEnd?.();
+    setSelection(EMPTY_SELECTION);
+  };
+
+  const duplicateSelected = () => {
+    if (isSelectionEmpty(selection)) return;
+    const next = duplicateSelection(selection, drawings, markers);
+    onEditBegin?.();
+    setDrawings(next.drawings);
+    setMarkers(next.markers);
+    onEditEnd?.();
+    setSelection(next.selection);
+  };
 
-      animationFrameId = requestAnimationFrame(render);
+  // Select tool shortcuts: Delete/Backspace, Ctrl+D duplicate, Escape deselect
+  useEffect(() => {
+    if (activeTool !== ToolType.SELECT) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') { e.preventDefault(); deleteSelected(); }
+      else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') { e.preventDefault(); duplicateSelected(); }
+      else if (e.key === 'Escape') setSelection(EMPTY_SELECTION);
     };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // --- View: zoom and pan ---
+
+  const resetView = () => {
+    zoomRef.current = 1;
+    viewOffsetRef.current = { x: 0, y: 0 };
+    setZoom(1);
+    setIsPanned(false);
+  };
+
+  // A different map shape or orientation lays out from scratch
+  useEffect(resetView, [orientation, backgroundImage]);
+
+  const panBy = (dx: number, dy: number) => {
+    viewOffsetRef.current = { x: viewOffsetRef.current.x + dx, y: viewOffsetRef.current.y + dy };
+    const r = renderRectRef.current;
+    renderRectRef.current = { ...r, x: r.x + dx, y: r.y + dy };
+    setIsPanned(true);
+    requestDraw();
+  };
 
-    render();
+  // Zoom keeping the map point under (cx, cy) canvas px in place
+  const zoomAt = (cx: number, cy: number, factor: number) => {
+    const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoomRef.current * factor));
+    const k = next / zoomRef.current;
+    if (k === 1) return;
+    const r = renderRectRef.current;
+    const x = cx - (cx - r.x) * k;
+    const y = cy - (cy - r.y) * k;
+    viewOffsetRef.current = { x: viewOffsetRef.current.x + x - r.x, y: viewOffsetRef.current.y + y - r.y };
+    // Update the rect right away so further wheel events before the next frame build on this one
+    renderRectRef.current = { x, y, w: r.w * k, h: r.h * k };
+    zoomRef.current = next;
+    setZoom(next);
+    requestDraw();
+  };
 
-    return () => cancelAnimationFrame(animationFrameId);
-  }, [videoStream, cropRegion, drawings, currentPath, selectedColor, markers]);
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const bounds = canvas.getBoundingClientRect();
+      zoomAt(e.clientX - bounds.left, e.clientY - bounds.top, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // Clicking the overview inset centres the view on that spot; returns false when the point is outside it
+  const jumpToInsetPoint = (p: Point) => {
+    const inset = insetRectRef.current;
+    const canvas = canvasRef.current;
+    if (!inset || !canvas || p.x < inset.x || p.y < inset.y || p.x > inset.x + inset.w || p.y > inset.y + inset.h) return false;
+    const r = renderRectRef.current;
+    const u = (p.x - inset.x) / inset.w;
+    const v = (p.y - inset.y) / inset.h;
+    panBy(canvas.width / 2 - (r.x + u * r.w), canvas.height / 2 - (r.y + v * r.h));
+    return true;
+  };
 
   // --- Input Handlers (Convert Screen Pixels to Normalized Coords) ---
 
-  const getNormalizedPoint = (e: React.MouseEvent): Point | null => {
+  // Pointer position in canvas pixels
+  const getCanvasPoint = (e: { clientX: number; clientY: number }): Point | null => {
     const rect = canvasRef.current?.getBoundingClientRect();
     if (!rect) return null;
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const getNormalizedPoint = (e: { clientX: number; clientY: number }): Point | null => {
+    const mouse = getCanvasPoint(e);
+    if (!mouse) return null;
 
     const { x, y, w, h } = renderRectRef.current;
     if (w === 0 || h === 0) return null;
 
-    // Mouse position relative to canvas
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
+    // Convert to normalized relative to the displayed (zoomed, panned) map, then undo its rotation and flips
+    return fromView({
+      x: (mouse.x - x) / w,
+      y: (mouse.y - y) / h
+    }, orientation);
+  };
+
+  // Pixel scale for measuring in map coordinates
+  const getMapScale = () => mapScale(renderRectRef.current, orientation);
 
-    // Convert to normalized relative to the map image
+  // Selection bounds as displayed; the scale handle sits at the displayed bottom-right corner
+  const getSelectionBox = () => {
+    const b = selectionBounds(selection, drawings, markers, getMapScale(), SELECTION_PADDING);
+    return b && orientBounds(b, orientation);
+  };
+
+  // Topmost marker under the point, if any
+  const findMarkerAt = (point: Point): Marker | undefined => {
+    const scale = getMapScale();
+    for (let i = markers.length - 1; i >= 0; i--) {
+      if (screenDistance(markers[i], point, scale) <= MARKER_HIT_RADIUS) return markers[i];
+    }
+    return undefined;
+  };
+
+  const eraseAt = (point: Point) => {
+    const scale = getMapScale();
+
+    setDrawings(prev => {
+      let changed = false;
+      const next = prev.flatMap<Drawing>(drawing => {
+        // Strokes are split; shapes and labels are removed whole
+        if (drawing.kind !== 'path') {
+          if (!hitTestDrawing(drawing, point, ERASER_RADIUS, scale)) return [drawing];
+          changed = true;
+          return [];
+        }
+        const pieces = erasePath(drawing, point, ERASER_RADIUS, scale);
+        if (pieces.length !== 1 || pieces[0] !== drawing) changed = true;
+        return pieces;
+      });
+      return changed ? next : prev;
+    });
+
+    setMarkers(prev => {
+      const next = prev.filter(m => screenDistance(m, point, scale) > ERASER_RADIUS + MARKER_HIT_RADIUS);
+      return next.length === prev.length ? prev : next;
+    });
+  };
+
+  // Erase along the segment since the last event so fast drags don't skip over thin strokes
+  const eraseTo = (point: Point) => {
+    const last = lastErasePointRef.current;
+    lastErasePointRef.current = point;
+    if (!last) return eraseAt(point);
+
+    const steps = Math.max(1, Math.ceil(screenDistance(last, point, getMapScale()) / (ERASER_RADIUS / 2)));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      eraseAt({ x: last.x + (point.x - last.x) * t, y: last.y + (point.y - last.y) * t });
+    }
+  };
+
+  // Shift constrains shapes to equal screen width/height (circles, squares) or arrows to 45° steps.
+  // Quarter turns keep both, so this works in map coordinates.
+  const constrainEnd = (start: Point, end: Point, kind: ShapeDrawing['kind']): Point => {
+    const { w, h } = getMapScale();
+    const dx = (end.x - start.x) * w;
+    const dy = (end.y - start.y) * h;
+
+    if (kind === 'arrow') {
+      const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+      const len = Math.hypot(dx, dy);
+      return { x: start.x + (Math.cos(angle) * len) / w, y: start.y + (Math.sin(angle) * len) / h };
+    }
+
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    return { x: start.x + (Math.sign(dx) * size) / w, y: start.y + (Math.sign(dy) * size) / h };
+  };
+
+  // Stamp new annotations with an expiry when temporary annotations are enabled
+  const withExpiry = <T extends Expiring>(item: T): T => {
+    return annotationTtl ? { ...item, expiresAt: Date.now() + annotationTtl } : item;
+  };
+
+  const addPing = (point: Point) => {
+    const now = Date.now();
+    setPings(prev => [...prev, { id: createId('ping'), x: point.x, y: point.y, color: selectedColor, createdAt: now, expiresAt: now + pingTtl }]);
+  };
+
+  const commitText = () => {
+    const entry = textEntryRef.current;
+    updateTextEntry(null);
+    if (entry && entry.value.trim()) {
+      const label = withExpiry<TextLabel>({ id: createId('drawing'), kind: 'text', x: entry.point.x, y: entry.point.y, text: entry.value.trim(), color: selectedColor, size: TEXT_SIZE });
+      setDrawings(prev => [...prev, label]);
+    }
+  };
+
+  const isPalm = (e: React.PointerEvent) => {
+    if (e.pointerType !== 'touch') return false;
+    return Date.now() - lastPenTimeRef.current < PALM_REJECT_MS || Math.max(e.width, e.height) > PALM_CONTACT_SIZE;
+  };
+
+  const touchCentroid = (): Point => {
+    const touches = [...touchesRef.current.values()];
     return {
-      x: (mouseX - x) / w,
-      y: (mouseY - y) / h
+      x: touches.reduce((sum, t) => sum + t.x, 0) / touches.length,
+      y: touches.reduce((sum, t) => sum + t.y, 0) / touches.length
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // Capture the pointer so the interaction continues (and ends) even if it leaves the canvas
+  const beginInteraction = (e: React.PointerEvent) => {
+    activePointerIdRef.current = e.pointerId;
+    canvasRef.current?.setPointerCapture(e.pointerId);
+    setIsDrawing(true);
+  };
+
+  // A second finger turns the gesture into a pan: drop any stroke the first finger started
+  const startPan = () => {
+    if (activePointerIdRef.current !== null) {
+      if (activeTool === ToolType.ERASER || draggedMarkerIdRef.current || selectDragRef.current) onEditEnd?.();
+      activePointerIdRef.current = null;
+      draggedMarkerIdRef.current = null;
+      selectDragRef.current = null;
+      lastErasePointRef.current = null;
+      setIsDrawing(false);
+      setDraft(null);
+      setLasso(null);
+    }
+    panRef.current = { centroid: touchCentroid() };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'pen') lastPenTimeRef.current = Date.now();
+
+    if (e.pointerType === 'touch') {
+      if (isPalm(e)) return;
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touchesRef.current.size >= 2) return startPan();
+      if (panRef.current) return;
+    }
+
+    // Middle button pans the view with any tool
+    if (e.button === 1 && !mousePanRef.current) {
+      e.preventDefault();
+      mousePanRef.current = { pointerId: e.pointerId, last: { x: e.clientX, y: e.clientY } };
+      canvasRef.current?.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    // Only the primary button draws; right-click is handled by handleContextMenu
+    if (e.button !== 0 || activePointerIdRef.current !== null) return;
+    const canvasPoint = getCanvasPoint(e);
+    if (canvasPoint && jumpToInsetPoint(canvasPoint)) return;
     const point = getNormalizedPoint(e);
     if (!point) return;
 
-    if (activeTool === ToolType.PEN) {
-      setIsDrawing(true);
-      setCurrentPath([point]);
+    // Alt+click pings with any tool
+    if (activeTool === ToolType.PING || e.altKey) {
+      addPing(point);
+      return;
+    }
+    if (readOnly) return;
+
+    const pressure = e.pointerType === 'pen' ? [e.pressure] : undefined;
+
+    if (activeTool === ToolType.ERASER) {
+      beginInteraction(e);
+      onEditBegin?.();
+      lastErasePointRef.current = null;
+      eraseTo(point);
+    } else if (activeTool === ToolType.PEN) {
+      beginInteraction(e);
+      setDraft({ id: createId('drawing'), kind: 'path', points: [point], color: selectedColor, width: strokeWidth, opacity: strokeOpacity, pressure });
+    } else if (SHAPE_TOOLS[activeTool]) {
+      beginInteraction(e);
+      setDraft({ id: createId('drawing'), kind: SHAPE_TOOLS[activeTool]!, start: point, end: point, color: selectedColor, width: strokeWidth, opacity: strokeOpacity });
+    } else if (activeTool === ToolType.TEXT) {
+      // Clicking elsewhere while typing places the pending label first
+      commitText();
+      updateTextEntry({ point, value: '' });
+    } else if (activeTool === ToolType.SELECT) {
+      startSelectDrag(e, point);
     } else if (activeTool === ToolType.MARKER) {
-      const newMarker: Marker = {
-        id: Date.now().toString(),
+      // Grab an existing marker, otherwise place a new one
+      const hit = findMarkerAt(point);
+      if (hit) {
+        draggedMarkerIdRef.current = hit.id;
+        beginInteraction(e);
+        onEditBegin?.();
+        return;
+      }
+
+      const newMarker = withExpiry<Marker>({
+        id: createId('marker'),
         x: point.x,
         y: point.y,
-        type: 'danger'
-      };
+        type: markerType
+      });
       setMarkers(prev => [...prev, newMarker]);
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawing || activeTool !== ToolType.PEN) return;
+  // Pointer down with the select tool: scale handle, move the selection, pick an item, or start a lasso
+  const startSelectDrag = (e: React.PointerEvent, point: Point) => {
+    const scale = getMapScale();
+    const original = { drawings, markers };
+    const box = getSelectionBox();
+
+    if (box && screenDistance(point, fromView({ x: box.maxX, y: box.maxY }, orientation), scale) <= HANDLE_SIZE) {
+      selectDragRef.current = { mode: 'scale', start: point, anchor: fromView({ x: box.minX, y: box.minY }, orientation), original };
+      beginInteraction(e);
+      onEditBegin?.();
+      return;
+    }
+
+    const pick = pickAt(point, drawings, markers, MARKER_HIT_RADIUS, scale);
+    if (pick) {
+      // Shift adds to the selection; clicking an already selected item keeps the group
+      const next = e.shiftKey ? mergeSelection(selection, pick) : isSelected(selection, pick) ? selection : pick;
+      setSelection(next);
+      selectDragRef.current = { mode: 'move', start: point, anchor: point, original };
+      beginInteraction(e);
+      onEditBegin?.();
+      return;
+    }
+
+    if (!e.shiftKey) setSelection(EMPTY_SELECTION);
+    setLasso([point]);
+    beginInteraction(e);
+  };
+
+  const updateSelectDrag = (point: Point) => {
+    const drag = selectDragRef.current;
+    if (!drag) {
+      setLasso(prev => prev && [...prev, point]);
+      return;
+    }
+
+    let next;
+    if (drag.mode === 'move') {
+      const dx = point.x - drag.start.x;
+      const dy = point.y - drag.start.y;
+      next = transformSelection(selection, { drawings, markers }, drag.original, p => ({ x: p.x + dx, y: p.y + dy }));
+    } else {
+      // Uniform scale about the top-left corner, from how far the handle moved along its diagonal
+      const scale = getMapScale();
+      const k = Math.max(0.1, screenDistance(point, drag.anchor, scale) / Math.max(1, screenDistance(drag.start, drag.anchor, scale)));
+      next = transformSelection(selection, { drawings, markers }, drag.original, p => ({
+        x: drag.anchor.x + (p.x - drag.anchor.x) * k,
+        y: drag.anchor.y + (p.y - drag.anchor.y) * k
+      }), k);
+    }
+    setDrawings(next.drawings);
+    setMarkers(next.markers);
+  };
+
+  const endSelectDrag = (e: React.PointerEvent) => {
+    if (selectDragRef.current) {
+      selectDragRef.current = null;
+      onEditEnd?.();
+    } else if (lasso) {
+      if (lasso.length > 2) {
+        const picked = selectInLasso(lasso, drawings, markers, getMapScale());
+        setSelection(prev => e.shiftKey ? mergeSelection(prev, picked) : picked);
+      }
+      setLasso(null);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    // Pen hovering in range counts as "seen" for palm rejection
+    if (e.pointerType === 'pen') lastPenTimeRef.current = Date.now();
+
+    if (e.pointerType === 'touch' && touchesRef.current.has(e.pointerId)) {
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (panRef.current) {
+        if (touchesRef.current.size >= 2) {
+          const centroid = touchCentroid();
+          panBy(centroid.x - panRef.current.centroid.x, centroid.y - panRef.current.centroid.y);
+          panRef.current = { centroid };
+        }
+        return;
+      }
+    }
+
+    const mousePan = mousePanRef.current;
+    if (mousePan && e.pointerId === mousePan.pointerId) {
+      panBy(e.clientX - mousePan.last.x, e.clientY - mousePan.last.y);
+      mousePan.last = { x: e.clientX, y: e.clientY };
+      return;
+    }
+
     const point = getNormalizedPoint(e);
-    if (point) {
-      setCurrentPath(prev => [...prev, point]);
+    cursorRef.current = point;
+    if (activeTool === ToolType.ERASER) requestDraw();
+    if (!isDrawing || !point || e.pointerId !== activePointerIdRef.current) return;
+
+    if (activeTool === ToolType.ERASER) {
+      eraseTo(point);
+    } else if (activeTool === ToolType.SELECT) {
+      updateSelectDrag(point);
+    } else if (activeTool === ToolType.MARKER && draggedMarkerIdRef.current) {
+      const id = draggedMarkerIdRef.current;
+      setMarkers(prev => prev.map(m => m.id === id ? { ...m, x: point.x, y: point.y } : m));
+    } else if (activeTool === ToolType.PEN) {
+      const pressure = e.pressure;
+      setDraft(prev => {
+        if (!prev || prev.kind !== 'path') return prev;
+        const last = prev.points[prev.points.length - 1];
+        const smoothed = { x: last.x + (point.x - last.x) * SMOOTHING, y: last.y + (point.y - last.y) * SMOOTHING };
+        if (screenDistance(last, smoothed, getMapScale()) < MIN_POINT_SPACING) return prev;
+        return {
+          ...prev,
+          points: [...prev.points, smoothed],
+          pressure: prev.pressure && [...prev.pressure, pressure]
+        };
+      });
+    } else if (SHAPE_TOOLS[activeTool]) {
+      setDraft(prev => {
+        if (!prev || prev.kind === 'path' || prev.kind === 'text') return prev;
+        return { ...prev, end: e.shiftKey ? constrainEnd(prev.start, point, prev.kind) : point };
+      });
     }
   };
 
-  const handleMouseUp = () => {
-    if (isDrawing && activeTool === ToolType.PEN) {
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (mousePanRef.current && e.pointerId === mousePanRef.current.pointerId) {
+      mousePanRef.current = null;
+      return;
+    }
+
+    if (e.pointerType === 'touch') {
+      touchesRef.current.delete(e.pointerId);
+      // Stay in pan mode until every finger is lifted so the last one doesn't start a stroke
+      if (panRef.current) {
+        if (touchesRef.current.size === 0) panRef.current = null;
+        else panRef.current = { centroid: touchCentroid() };
+        return;
+      }
+    }
+
+    if (e.pointerId !== activePointerIdRef.current) return;
+    activePointerIdRef.current = null;
+
+    if (isDrawing && activeTool === ToolType.ERASER) {
+      setIsDrawing(false);
+      lastErasePointRef.current = null;
+      onEditEnd?.();
+    } else if (isDrawing && activeTool === ToolType.SELECT) {
       setIsDrawing(false);
-      if (currentPath.length > 1) {
-        setDrawings(prev => [...prev, { points: currentPath, color: selectedColor, width: 4 }]);
+      endSelectDrag(e);
+    } else if (isDrawing && activeTool === ToolType.MARKER) {
+      setIsDrawing(false);
+      draggedMarkerIdRef.current = null;
+      onEditEnd?.();
+    } else if (isDrawing && activeTool === ToolType.PEN) {
+      setIsDrawing(false);
+      if (draft && draft.kind === 'path' && draft.points.length > 1) {
+        setDrawings(prev => [...prev, withExpiry(simplifyStroke(draft, SIMPLIFY_TOLERANCE, getMapScale()))]);
       }
-      setCurrentPath([]);
+      setDraft(null);
+    } else if (isDrawing && SHAPE_TOOLS[activeTool]) {
+      setIsDrawing(false);
+      // Ignore clicks that never dragged out a visible shape
+      if (draft && draft.kind !== 'path' && draft.kind !== 'text') {
+        if (screenDistance(draft.start, draft.end, getMapScale()) > 4) setDrawings(prev => [...prev, withExpiry(draft)]);
+      }
+      setDraft(null);
     }
   };
 
+  // Right-click deletes the marker under the cursor with any tool
+  const handleContextMenu = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const point = getNormalizedPoint(e);
+    if (!point || isDrawing || readOnly) return;
+    const hit = findMarkerAt(point);
+    if (hit) setMarkers(prev => prev.filter(m => m.id !== hit.id));
+  };
+
   return (
-    <div ref={containerRef} className="w-full h-full bg-black relative cursor-crosshair">
+    <div ref={containerRef} className={`w-full h-full bg-black relative ${TOOL_CURSORS[activeTool] || 'cursor-crosshair'}`}>
       <canvas
         ref={canvasRef}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        className="block w-full h-full"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => { cursorRef.current = null; requestDraw(); }}
+        // Keep focus on a pending text label when clicking to place the next one, and stop middle-click autoscroll
+        onMouseDown={e => { if (activeTool === ToolType.TEXT || e.button === 1) e.preventDefault(); }}
+        onContextMenu={handleContextMenu}
+        className="block w-full h-full touch-none"
       />
+      {activeTool === ToolType.SELECT && !isSelectionEmpty(selection) && !isDrawing && (() => {
+        const box = getSelectionBox();
+        if (!box) return null;
+        const anchor = toScreen({ x: box.maxX, y: box.minY }, renderRectRef.current);
+        return (
+          <div className="absolute flex gap-1 -translate-x-full -translate-y-full pb-1" style={{ left: anchor.x, top: anchor.y }}>
+            <button onClick={duplicateSelected} className="px-1.5 py-0.5 text-[10px] font-bold rounded bg-neutral-900/90 border border-neutral-700 text-neutral-300 hover:text-white">DUPLICATE</button>
+            <button onClick={deleteSelected} className="px-1.5 py-0.5 text-[10px] font-bold rounded bg-neutral-900/90 border border-neutral-700 text-red-400 hover:text-red-300">DELETE</button>
+          </div>
+        );
+      })()}
+      {(zoom > 1 || isPanned) && (
+        <div className="absolute bottom-2 right-2 flex items-center gap-1">
+          <span className="px-1.5 py-0.5 text-[10px] font-bold rounded bg-neutral-900/90 text-neutral-400">{Math.round(zoom * 100)}%</span>
+          <button onClick={resetView} title="Fit the whole map" className="px-1.5 py-0.5 text-[10px] font-bold rounded bg-neutral-900/90 border border-neutral-700 text-neutral-300 hover:text-white">RESET VIEW</button>
+        </div>
+      )}
+      {textEntry && (
+        <input
+          autoFocus
+          value={textEntry.value}
+          onChange={e => updateTextEntry({ ...textEntry, value: e.target.value })}
+          onKeyDown={e => {
+            if (e.key === 'Enter') commitText();
+            else if (e.key === 'Escape') updateTextEntry(null);
+          }}
+          onBlur={commitText}
+          placeholder="Label..."
+          className="absolute bg-neutral-900/90 border border-amber-500 rounded px-1 text-sm text-white outline-none"
+          style={{
+            left: toScreen(toView(textEntry.point, orientation), renderRectRef.current).x,
+            top: toScreen(toView(textEntry.point, orientation), renderRectRef.current).y - TEXT_SIZE * renderRectRef.current.h,
+            color: selectedColor
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from 'react';
+import { MarkerType } from '../types';
+import { MARKER_TYPES, MARKER_TYPE_LIST } from '../lib/markers';
+
+interface MarkerPaletteProps {
+  selected: MarkerType;
+  onSelect: (type: MarkerType) => void;
+}
+
+// Small canvas preview so the palette shows exactly what the map will draw
+const MarkerSwatch = ({ type }: { type: MarkerType }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, 28, 28);
+    ctx.save();
+    ctx.translate(14, 14);
+    MARKER_TYPES[type].draw(ctx);
+    ctx.restore();
+  }, [type]);
+
+  return <canvas ref={canvasRef} width={28} height={28} className="w-5 h-5" />;
+};
+
+const MarkerPalette: React.FC<MarkerPaletteProps> = ({ selected, onSelect }) => (
+  <div className="grid grid-cols-2 gap-1 px-1">
+    {MARKER_TYPE_LIST.map(type => (
+      <button
+        key={type}
+        title={MARKER_TYPES[type].label}
+        onClick={() => onSelect(type)}
+        className={`flex items-center justify-center rounded p-0.5 ${selected === type ? 'bg-neutral-700 ring-1 ring-amber-500' : 'hover:bg-neutral-800'}`}
+      >
+        <MarkerSwatch type={type} />
+      </button>
+    ))}
+  </div>
+);
+
+export default MarkerPalette;
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { SavedPlan } from '../types';
+import { deletePlan, listPlans, renamePlan } from '../services/planStorage';
+import { TrashIcon, XIcon } from './IconSymbols';
+
+interface PlanLibraryProps {
+  onSave: (name: string) => Promise<void>;
+  onLoad: (plan: SavedPlan) => void;
+  onClose: () => void;
+}
+
+const PlanLibrary: React.FC<PlanLibraryProps> = ({ onSave, onLoad, onClose }) => {
+  const [plans, setPlans] = useState<SavedPlan[]>([]);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setPlans(await listPlans());
+      setError(null);
+    } catch (e) {
+      console.error("Failed to load plans:", e);
+      setError("Plan storage unavailable");
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleSave = async () => {
+    const name = newName.trim() || `Plan ${new Date().toLocaleString()}`;
+    try {
+      await onSave(name);
+      setNewName('');
+      await refresh();
+    } catch (e) {
+      console.error("Failed to save plan:", e);
+      setError("Could not save plan");
+    }
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    setEditingId(null);
+    if (!name) return;
+    await renamePlan(id, name).catch(console.error);
+    await refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deletePlan(id).catch(console.error);
+    await refresh();
+  };
+
+  return (
+    <div className="absolute top-2 right-2 w-72 max-h-[calc(100%-16px)] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded shadow-2xl backdrop-blur-md z-40 text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-neutral-800">
+        <span className="font-bold text-amber-500 tracking-wider">PLANS</span>
+        <button onClick={onClose} className="p-0.5 text-neutral-500 hover:text-white"><XIcon size={12} /></button>
+      </div>
+      <div className="flex gap-1 p-2 border-b border-neutral-800">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="Plan name..."
+          className="flex-1 min-w-0 bg-neutral-800 rounded px-1.5 py-1 text-white outline-none"
+        />
+        <button onClick={handleSave} className="px-2 py-1 bg-green-600 text-white font-bold rounded hover:bg-green-500">SAVE</button>
+      </div>
+      {error && <p className="px-2 py-1 text-red-400">{error}</p>}
+      <ul className="overflow-y-auto">
+        {plans.length === 0 && !error && <li className="px-2 py-3 text-neutral-500 text-center">No saved plans</li>}
+        {plans.map(plan => (
+          <li key={plan.id} className="flex items-center gap-2 px-2 py-1.5 hover:bg-neutral-800 group">
+            <button onClick={() => onLoad(plan)} title="Load plan" className="shrink-0">
+              {plan.thumbnail
+                ? <img src={plan.thumbnail} alt="" className="w-14 h-14 object-cover rounded border border-neutral-700" />
+                : <div className="w-14 h-14 rounded border border-neutral-700 bg-neutral-950" />}
+            </button>
+            <div className="flex-1 min-w-0">
+              {editingId === plan.id ? (
+                <input
+                  autoFocus
+                  defaultValue={plan.name}
+                  onBlur={e => handleRename(plan.id, e.target.value.trim())}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                    else if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-neutral-800 px-1 text-white outline-none"
+                />
+              ) : (
+                <p onDoubleClick={() => setEditingId(plan.id)} title="Double-click to rename" className="text-white truncate">{plan.name}</p>
+              )}
+              <p className="text-neutral-500">{new Date(plan.updatedAt).toLocaleString()}</p>
+            </div>
+            <button onClick={() => handleDelete(plan.id)} title="Delete plan" className="text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100">
+              <TrashIcon size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PlanLibrary;
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { Playbook } from '../types';
+import { deletePlaybook, listPlaybooks } from '../services/planStorage';
+import { TrashIcon, XIcon } from './IconSymbols';
+
+interface PlaybookLibraryProps {
+  // Starts a new playbook from the current annotations
+  onCreate: (name: string) => Promise<void>;
+  onOpen: (playbook: Playbook) => void;
+  onClose: () => void;
+}
+
+const PlaybookLibrary: React.FC<PlaybookLibraryProps> = ({ onCreate, onOpen, onClose }) => {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setPlaybooks(await listPlaybooks());
+      setError(null);
+    } catch (e) {
+      console.error("Failed to load playbooks:", e);
+      setError("Playbook storage unavailable");
+    }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleCreate = async () => {
+    const name = newName.trim() || `Playbook ${new Date().toLocaleString()}`;
+    try {
+      await onCreate(name);
+      setNewName('');
+    } catch (e) {
+      console.error("Failed to create playbook:", e);
+      setError("Could not save playbook");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deletePlaybook(id).catch(console.error);
+    await refresh();
+  };
+
+  return (
+    <div className="absolute top-2 right-2 w-72 max-h-[calc(100%-16px)] flex flex-col bg-neutral-900/95 border border-neutral-700 rounded shadow-2xl backdrop-blur-md z-40 text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-neutral-800">
+        <span className="font-bold text-amber-500 tracking-wider">PLAYBOOKS</span>
+        <button onClick={onClose} className="p-0.5 text-neutral-500 hover:text-white"><XIcon size={12} /></button>
+      </div>
+      <div className="flex gap-1 p-2 border-b border-neutral-800">
+        <input
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+          placeholder="Playbook name..."
+          className="flex-1 min-w-0 bg-neutral-800 rounded px-1.5 py-1 text-white outline-none"
+        />
+        <button onClick={handleCreate} title="New playbook from the current map" className="px-2 py-1 bg-green-600 text-white font-bold rounded hover:bg-green-500">NEW</button>
+      </div>
+      {error && <p className="px-2 py-1 text-red-400">{error}</p>}
+      <ul className="overflow-y-auto">
+        {playbooks.length === 0 && !error && <li className="px-2 py-3 text-neutral-500 text-center">No saved playbooks</li>}
+        {playbooks.map(playbook => (
+          <li key={playbook.id} className="flex items-center gap-2 px-2 py-1.5 hover:bg-neutral-800 group">
+            <button onClick={() => onOpen(playbook)} title="Open playbook" className="flex-1 min-w-0 text-left">
+              <p className="text-white truncate">{playbook.name}</p>
+              <p className="text-neutral-500">
+                {playbook.steps.length} {playbook.steps.length === 1 ? 'step' : 'steps'} · {new Date(playbook.updatedAt).toLocaleString()}
+              </p>
+            </button>
+            <button onClick={() => handleDelete(playbook.id)} title="Delete playbook" className="text-neutral-600 hover:text-red-400 opacity-0 group-hover:opacity-100">
+              <TrashIcon size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PlaybookLibrary;
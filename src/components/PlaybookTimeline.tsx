@@ -0,0 +1,87 @@
+import React from 'react';
+import { Playbook } from '../types';
+import { ChevronLeftIcon, ChevronRightIcon, DownloadIcon, TrashIcon, XIcon } from './IconSymbols';
+
+interface PlaybookTimelineProps {
+  playbook: Playbook;
+  stepIndex: number;
+  onSelectStep: (index: number) => void;
+  onAddStep: () => void;
+  onRemoveStep: () => void;
+  onChangeLabel: (label: string) => void;
+  onChangeNote: (note: string) => void;
+  onSave: () => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// Strip along the bottom of the map: step navigation plus the current step's label and note.
+// Edits to the map apply to the current step.
+const PlaybookTimeline: React.FC<PlaybookTimelineProps> = ({
+  playbook,
+  stepIndex,
+  onSelectStep,
+  onAddStep,
+  onRemoveStep,
+  onChangeLabel,
+  onChangeNote,
+  onSave,
+  onExport,
+  onClose
+}) => {
+  const step = playbook.steps[stepIndex];
+
+  return (
+    <div className="shrink-0 bg-neutral-900/95 border-t border-neutral-800 text-xs z-30">
+      <div className="flex items-center gap-1 px-2 py-1">
+        <span className="font-bold text-amber-500 tracking-wider truncate max-w-[120px]" title={playbook.name}>{playbook.name.toUpperCase()}</span>
+        <button onClick={() => onSelectStep(stepIndex - 1)} disabled={stepIndex === 0} title="Previous step" className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30">
+          <ChevronLeftIcon size={14} />
+        </button>
+        <ol className="flex-1 flex items-center gap-1 overflow-x-auto">
+          {playbook.steps.map((s, i) => (
+            <li key={s.id}>
+              <button
+                onClick={() => onSelectStep(i)}
+                title={s.note || s.label}
+                className={`px-2 py-0.5 rounded whitespace-nowrap ${i === stepIndex ? 'bg-amber-600 text-white' : 'bg-neutral-800 text-neutral-400 hover:text-white'}`}
+              >
+                {s.label || `Step ${i + 1}`}
+              </button>
+            </li>
+          ))}
+          <li>
+            <button onClick={onAddStep} title="Add step after this one" className="px-1.5 text-neutral-400 hover:text-white font-bold">+</button>
+          </li>
+        </ol>
+        <button onClick={() => onSelectStep(stepIndex + 1)} disabled={stepIndex === playbook.steps.length - 1} title="Next step" className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30">
+          <ChevronRightIcon size={14} />
+        </button>
+        <button onClick={onSave} className="px-2 py-0.5 bg-green-600 text-white font-bold rounded hover:bg-green-500">SAVE</button>
+        <button onClick={onExport} title="Export playbook file" className="p-0.5 text-neutral-400 hover:text-white"><DownloadIcon /></button>
+        <button onClick={onClose} title="Close playbook" className="p-0.5 text-neutral-500 hover:text-white"><XIcon size={12} /></button>
+      </div>
+      {step && (
+        <div className="flex items-center gap-1 px-2 pb-1.5">
+          <input
+            value={step.label}
+            onChange={e => onChangeLabel(e.target.value)}
+            placeholder="Time"
+            className="w-16 bg-neutral-800 rounded px-1.5 py-1 text-white outline-none"
+          />
+          <input
+            value={step.note}
+            onChange={e => onChangeNote(e.target.value)}
+            placeholder="Note for this step..."
+            className="flex-1 min-w-0 bg-neutral-800 rounded px-1.5 py-1 text-white outline-none"
+          />
+          <button onClick={onRemoveStep} disabled={playbook.steps.length <= 1} title="Delete step" className="p-0.5 text-neutral-600 hover:text-red-400 disabled:opacity-30">
+            <TrashIcon size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaybookTimeline;
@@ -0,0 +1,30 @@
+import { CropRegion, HudPanel } from '../types';
+import { createId } from './ids';
+
+const PANELS_KEY = 'deadlock-map-panels';
+
+// New panels start as a strip along the top centre of the screen, where hero bars usually sit
+const DEFAULT_PANEL_CROP: CropRegion = { x: 0.3, y: 0, width: 0.4, height: 0.08 };
+
+export const createPanel = (name: string, crop = DEFAULT_PANEL_CROP): HudPanel => ({
+  id: createId('panel'),
+  name,
+  crop
+});
+
+export const updatePanel = (panels: HudPanel[], id: string, change: Partial<HudPanel>): HudPanel[] => {
+  return panels.map(p => p.id === id ? { ...p, ...change } : p);
+};
+
+export const loadPanels = (): HudPanel[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PANELS_KEY) || 'null');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storePanels = (panels: HudPanel[]) => {
+  localStorage.setItem(PANELS_KEY, JSON.stringify(panels));
+};
@@ -0,0 +1,105 @@
+import { CropRegion, FrameSize } from '../types';
+
+// Crop box editing in setup mode. All values are frame pixels.
+
+// Corner and edge handles, named by compass direction
+export type CropHandle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+export const CROP_HANDLES: CropHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+// Arrow-key nudge distances
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_LARGE = 10;
+
+const round = (crop: CropRegion): CropRegion => ({
+  x: Math.round(crop.x),
+  y: Math.round(crop.y),
+  width: Math.round(crop.width),
+  height: Math.round(crop.height)
+});
+
+// Moves without resizing, stopping at the frame edges
+export const moveCrop = (crop: CropRegion, dx: number, dy: number, frame: FrameSize): CropRegion => round({
+  ...crop,
+  x: Math.max(0, Math.min(crop.x + dx, frame.w - crop.width)),
+  y: Math.max(0, Math.min(crop.y + dy, frame.h - crop.height))
+});
+
+// Keeps a crop (e.g. typed into the numeric fields) inside the frame and at least `min` pixels wide and high
+export const clampCrop = (crop: CropRegion, frame: FrameSize, min: number): CropRegion => {
+  const width = Math.max(min, Math.min(crop.width, frame.w));
+  const height = Math.max(min, Math.min(crop.height, frame.h));
+  return round({
+    x: Math.max(0, Math.min(crop.x, frame.w - width)),
+    y: Math.max(0, Math.min(crop.y, frame.h - height)),
+    width,
+    height
+  });
+};
+
+// Drags a handle by (dx, dy) from the crop at drag start. The opposite edge or corner stays put.
+// With an aspect ratio (width / height), corners keep it by following the larger change, and
+// edge handles resize the other dimension around the box's centre line.
+export const resizeCrop = (
+  start: CropRegion,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  frame: FrameSize,
+  min: number,
+  aspect: number | null
+): CropRegion => {
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+
+  if (handle.includes('w')) left = Math.max(0, Math.min(left + dx, right - min));
+  if (handle.includes('e')) right = Math.min(frame.w, Math.max(right + dx, left + min));
+  if (handle.includes('n')) top = Math.max(0, Math.min(top + dy, bottom - min));
+  if (handle.includes('s')) bottom = Math.min(frame.h, Math.max(bottom + dy, top + min));
+
+  if (!aspect) return round({ x: left, y: top, width: right - left, height: bottom - top });
+
+  const horizontal = handle.includes('e') || handle.includes('w');
+  const vertical = handle.includes('n') || handle.includes('s');
+  let width = right - left;
+  let height = bottom - top;
+
+  if (horizontal && vertical) {
+    if (width / height > aspect) height = width / aspect;
+    else width = height * aspect;
+    // Room left between the fixed corner and the frame edge
+    const maxW = handle.includes('w') ? right : frame.w - left;
+    const maxH = handle.includes('n') ? bottom : frame.h - top;
+    width = Math.min(width, maxW, maxH * aspect);
+    height = width / aspect;
+    if (handle.includes('w')) left = right - width;
+    if (handle.includes('n')) top = bottom - height;
+    return round({ x: left, y: top, width, height });
+  }
+
+  // Edge handle: the other dimension follows, centred on the start box
+  if (horizontal) height = width / aspect;
+  else width = height * aspect;
+  if (width > frame.w) { width = frame.w; height = width / aspect; }
+  if (height > frame.h) { height = frame.h; width = height * aspect; }
+  const x = horizontal ? (handle === 'w' ? right - width : left) : start.x + start.width / 2 - width / 2;
+  const y = vertical ? (handle === 'n' ? bottom - height : top) : start.y + start.height / 2 - height / 2;
+  return clampCrop({ x, y, width, height }, frame, 0);
+};
+
+// Reshapes a crop to the aspect ratio around its centre, keeping its area roughly the same
+export const withAspect = (crop: CropRegion, aspect: number, frame: FrameSize): CropRegion => {
+  const size = Math.sqrt(crop.width * crop.height);
+  let width = size * Math.sqrt(aspect);
+  let height = size / Math.sqrt(aspect);
+  if (width > frame.w) { width = frame.w; height = width / aspect; }
+  if (height > frame.h) { height = frame.h; width = height * aspect; }
+  return clampCrop({
+    x: crop.x + crop.width / 2 - width / 2,
+    y: crop.y + crop.height / 2 - height / 2,
+    width,
+    height
+  }, frame, 0);
+};
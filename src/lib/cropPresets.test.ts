@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createPreset, pickPreset, presetCrop, recordCrop, rescaleCrop } from './cropPresets';
+import { CropPreset } from '../types';
+
+const FHD = { w: 1920, h: 1080 };
+const QHD = { w: 2560, h: 1440 };
+const ULTRAWIDE = { w: 2560, h: 1080 };
+
+// Minimap in the bottom-left corner of a 1080p frame
+const MAP = { x: 20, y: 760, width: 300, height: 300 };
+
+describe('rescaleCrop', () => {
+  it('scales proportionally between frames of the same aspect ratio', () => {
+    expect(rescaleCrop(MAP, FHD, QHD)).toEqual({ x: 27, y: 1013, width: 400, height: 400 });
+  });
+
+  it('keeps the crop square and anchored to its side on a wider frame', () => {
+    expect(rescaleCrop(MAP, FHD, ULTRAWIDE)).toEqual(MAP);
+
+    const rightMap = { x: 1600, y: 20, width: 300, height: 300 };
+    expect(rescaleCrop(rightMap, FHD, ULTRAWIDE)).toEqual({ x: 2240, y: 20, width: 300, height: 300 });
+  });
+});
+
+describe('presets', () => {
+  const preset = (name: string, frame: { w: number; h: number }, updatedAt: number): CropPreset =>
+    ({ ...createPreset(name, MAP, frame), updatedAt });
+
+  it('give back their crop at the resolution they were made for', () => {
+    expect(presetCrop(createPreset('1080p', MAP, FHD), FHD)).toEqual(MAP);
+  });
+
+  it('prefer an exact resolution, then the most recent one with the same aspect ratio', () => {
+    const fhd = preset('fhd', FHD, 1);
+    const qhd = preset('qhd', QHD, 2);
+    const wide = preset('wide', ULTRAWIDE, 3);
+
+    expect(pickPreset([fhd, qhd, wide], FHD)).toBe(fhd);
+    expect(pickPreset([fhd, qhd, wide], { w: 3840, h: 2160 })).toBe(qhd);
+    expect(pickPreset([fhd, qhd], { w: 1280, h: 1024 })).toBeNull();
+  });
+});
+
+describe('recordCrop', () => {
+  it('updates the active preset when it was made for this resolution', () => {
+    const active = createPreset('1080p', MAP, FHD);
+    const moved = { ...MAP, x: 40 };
+    const result = recordCrop([active], active.id, moved, FHD);
+
+    expect(result.presets).toHaveLength(1);
+    expect(result.active.id).toBe(active.id);
+    expect(presetCrop(result.active, FHD)).toEqual(moved);
+  });
+
+  it('returns the same list when the crop did not change', () => {
+    const presets = [createPreset('1080p', MAP, FHD)];
+    expect(recordCrop(presets, presets[0].id, MAP, FHD).presets).toBe(presets);
+  });
+
+  it('adds a preset named after the resolution for a new one', () => {
+    const presets = [createPreset('1080p', MAP, FHD)];
+    const result = recordCrop(presets, presets[0].id, MAP, QHD);
+
+    expect(result.presets).toHaveLength(2);
+    expect(result.active.name).toBe('2560×1440');
+  });
+});
@@ -0,0 +1,105 @@
+import { CropPreset, CropRegion, FrameSize } from '../types';
+import { createId } from './ids';
+
+const PRESETS_KEY = 'deadlock-map-crop-presets';
+// Pre-preset storage: a single crop in absolute pixels, assumed to be for 1080p
+const LEGACY_CROP_KEY = 'deadlock-map-crop';
+const LEGACY_FRAME: FrameSize = { w: 1920, h: 1080 };
+
+// Aspect ratios closer than this count as the same (1366x768 vs 1920x1080)
+const ASPECT_TOLERANCE = 0.01;
+
+export const resolutionLabel = (frame: FrameSize) => `${frame.w}×${frame.h}`;
+
+const sameResolution = (a: FrameSize, b: FrameSize) => a.w === b.w && a.h === b.h;
+
+const sameAspect = (a: FrameSize, b: FrameSize) => Math.abs(a.w / a.h - b.w / b.h) < ASPECT_TOLERANCE;
+
+export const toFractions = (crop: CropRegion, frame: FrameSize): CropRegion => ({
+  x: crop.x / frame.w,
+  y: crop.y / frame.h,
+  width: crop.width / frame.w,
+  height: crop.height / frame.h
+});
+
+export const toPixels = (crop: CropRegion, frame: FrameSize): CropRegion => ({
+  x: Math.round(crop.x * frame.w),
+  y: Math.round(crop.y * frame.h),
+  width: Math.round(crop.width * frame.w),
+  height: Math.round(crop.height * frame.h)
+});
+
+// Maps a pixel crop from one frame size to another.
+// Same aspect ratio: plain proportional scaling. Otherwise the game UI scales with the frame height
+// and stays anchored to the nearest side, so the crop keeps its shape and its distance to that side.
+export const rescaleCrop = (crop: CropRegion, from: FrameSize, to: FrameSize): CropRegion => {
+  if (sameAspect(from, to)) return toPixels(toFractions(crop, from), to);
+
+  const scale = to.h / from.h;
+  const width = Math.min(to.w, crop.width * scale);
+  const height = Math.min(to.h, crop.height * scale);
+  const anchoredRight = crop.x + crop.width / 2 > from.w / 2;
+  const x = anchoredRight ? to.w - (from.w - crop.x) * scale : crop.x * scale;
+  return {
+    x: Math.round(Math.max(0, Math.min(x, to.w - width))),
+    y: Math.round(Math.max(0, Math.min(crop.y * scale, to.h - height))),
+    width: Math.round(width),
+    height: Math.round(height)
+  };
+};
+
+// Pixel crop a preset gives for a frame of the given size
+export const presetCrop = (preset: CropPreset, frame: FrameSize): CropRegion => {
+  return rescaleCrop(toPixels(preset.crop, preset.frame), preset.frame, frame);
+};
+
+// Best preset for a frame size: an exact resolution match, then the same aspect ratio, most recently used first.
+// Returns null when nothing fits well enough to reuse without rescaling across aspect ratios.
+export const pickPreset = (presets: CropPreset[], frame: FrameSize): CropPreset | null => {
+  const byRecent = [...presets].sort((a, b) => b.updatedAt - a.updatedAt);
+  return byRecent.find(p => sameResolution(p.frame, frame))
+    || byRecent.find(p => sameAspect(p.frame, frame))
+    || null;
+};
+
+export const createPreset = (name: string, crop: CropRegion, frame: FrameSize): CropPreset => ({
+  id: createId('crop'),
+  name,
+  frame: { ...frame },
+  crop: toFractions(crop, frame),
+  updatedAt: Date.now()
+});
+
+const sameCrop = (a: CropRegion, b: CropRegion) =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+// Records an edited crop: updates the active preset when it was made for this resolution, otherwise adds
+// an automatic preset named after the resolution. Returns the same list when nothing changed.
+export const recordCrop = (presets: CropPreset[], activeId: string | null, crop: CropRegion, frame: FrameSize) => {
+  const active = presets.find(p => p.id === activeId);
+  if (active && sameResolution(active.frame, frame)) {
+    if (sameCrop(presetCrop(active, frame), crop)) return { presets, active };
+    const updated = { ...active, crop: toFractions(crop, frame), updatedAt: Date.now() };
+    return { presets: presets.map(p => p.id === active.id ? updated : p), active: updated };
+  }
+  const created = createPreset(resolutionLabel(frame), crop, frame);
+  return { presets: [...presets, created], active: created };
+};
+
+export const loadPresets = (): CropPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || 'null');
+    if (Array.isArray(stored)) return stored;
+
+    const legacy: CropRegion | null = JSON.parse(localStorage.getItem(LEGACY_CROP_KEY) || 'null');
+    if (legacy) return [createPreset(resolutionLabel(LEGACY_FRAME), legacy, LEGACY_FRAME)];
+  } catch {
+    // Unreadable storage falls through to no presets
+  }
+  return [];
+};
+
+export const storePresets = (presets: CropPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  localStorage.removeItem(LEGACY_CROP_KEY);
+};
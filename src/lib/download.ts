@@ -0,0 +1,19 @@
+// Saves content as a file via a temporary object URL
+export const downloadFile = (filename: string, content: Blob | string, mimeType = 'application/octet-stream') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Filesystem-safe version of a user-entered name
+export const toFilename = (name: string, extension: string) => {
+  const base = name.trim().replace(/[^a-z0-9-_ ]/gi, '').replace(/\s+/g, '-').toLowerCase() || 'plan';
+  return `${base}.${extension}`;
+};
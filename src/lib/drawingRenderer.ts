@@ -0,0 +1,182 @@
+import { Drawing, DrawingPath, MapOrientation, Marker, Ping, ShapeDrawing, TextLabel } from '../types';
+import { RenderRect, isQuarterTurn, toScreen } from './geometry';
+import { expiryAlpha } from './expiry';
+import { MARKER_TYPES } from './markers';
+
+// Stylus pressure 0.5 (the value reported for a mouse button) maps to the nominal width
+const pressureWidth = (width: number, pressure: number) => width * (0.5 + pressure);
+
+// Quadratic curves through segment midpoints, so simplified strokes still render smooth
+const strokePath = (ctx: CanvasRenderingContext2D, path: DrawingPath, rect: RenderRect) => {
+  if (path.points.length < 2) return;
+  const points = path.points.map(p => toScreen(p, rect));
+
+  if (path.pressure) {
+    strokePressurePath(ctx, path, points);
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length - 1; i++) {
+    const mx = (points[i].x + points[i + 1].x) / 2;
+    const my = (points[i].y + points[i + 1].y) / 2;
+    ctx.quadraticCurveTo(points[i].x, points[i].y, mx, my);
+  }
+  const last = points[points.length - 1];
+  ctx.lineTo(last.x, last.y);
+  ctx.stroke();
+};
+
+// Same curve as strokePath, but each piece is stroked separately so its width can follow pressure
+const strokePressurePath = (ctx: CanvasRenderingContext2D, path: DrawingPath, points: { x: number; y: number }[]) => {
+  let from = points[0];
+  for (let i = 1; i < points.length; i++) {
+    const isLast = i === points.length - 1;
+    const to = isLast ? points[i] : { x: (points[i].x + points[i + 1].x) / 2, y: (points[i].y + points[i + 1].y) / 2 };
+
+    ctx.beginPath();
+    ctx.lineWidth = pressureWidth(path.width, path.pressure![i] ?? 0.5);
+    ctx.moveTo(from.x, from.y);
+    if (isLast) ctx.lineTo(to.x, to.y);
+    else ctx.quadraticCurveTo(points[i].x, points[i].y, to.x, to.y);
+    ctx.stroke();
+    from = to;
+  }
+};
+
+const strokeArrow = (ctx: CanvasRenderingContext2D, shape: ShapeDrawing, rect: RenderRect) => {
+  const a = toScreen(shape.start, rect);
+  const b = toScreen(shape.end, rect);
+  const angle = Math.atan2(b.y - a.y, b.x - a.x);
+  // Head scales with line width but never gets too small to read
+  const head = Math.max(10, shape.width * 3);
+
+  ctx.beginPath();
+  ctx.moveTo(a.x, a.y);
+  ctx.lineTo(b.x, b.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(b.x, b.y);
+  ctx.lineTo(b.x - head * Math.cos(angle - Math.PI / 6), b.y - head * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(b.x - head * Math.cos(angle + Math.PI / 6), b.y - head * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const strokeEllipse = (ctx: CanvasRenderingContext2D, shape: ShapeDrawing, rect: RenderRect) => {
+  const a = toScreen(shape.start, rect);
+  const b = toScreen(shape.end, rect);
+  ctx.beginPath();
+  ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
+  ctx.stroke();
+};
+
+const strokeRect = (ctx: CanvasRenderingContext2D, shape: ShapeDrawing, rect: RenderRect) => {
+  const a = toScreen(shape.start, rect);
+  const b = toScreen(shape.end, rect);
+  ctx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+};
+
+const fillText = (ctx: CanvasRenderingContext2D, label: TextLabel, rect: RenderRect) => {
+  const p = toScreen(label, rect);
+  const fontPx = Math.max(8, label.size * rect.h);
+  ctx.font = `bold ${fontPx}px sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+  // Dark outline keeps labels legible over any part of the map
+  ctx.lineWidth = Math.max(2, fontPx / 6);
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+  ctx.strokeText(label.text, p.x, p.y);
+  ctx.fillText(label.text, p.x, p.y);
+};
+
+// Draws one annotation in canvas pixels. Line widths are fixed pixel sizes for visibility;
+// positions follow the render rect so everything scales with the letterboxed map.
+export const drawDrawing = (ctx: CanvasRenderingContext2D, drawing: Drawing, rect: RenderRect, now = Date.now()) => {
+  ctx.save();
+  ctx.globalAlpha *= expiryAlpha(drawing, now);
+  if (drawing.kind !== 'text') ctx.globalAlpha *= drawing.opacity ?? 1;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = drawing.color;
+  ctx.fillStyle = drawing.color;
+
+  switch (drawing.kind) {
+    case 'path':
+      ctx.lineWidth = drawing.width;
+      strokePath(ctx, drawing, rect);
+      break;
+    case 'arrow':
+      ctx.lineWidth = drawing.width;
+      strokeArrow(ctx, drawing, rect);
+      break;
+    case 'ellipse':
+      ctx.lineWidth = drawing.width;
+      strokeEllipse(ctx, drawing, rect);
+      break;
+    case 'rect':
+      ctx.lineWidth = drawing.width;
+      strokeRect(ctx, drawing, rect);
+      break;
+    case 'text':
+      fillText(ctx, drawing, rect);
+      break;
+  }
+
+  ctx.restore();
+};
+
+export const drawMarker = (ctx: CanvasRenderingContext2D, marker: Marker, rect: RenderRect, now = Date.now()) => {
+  const definition = MARKER_TYPES[marker.type];
+  if (!definition) return;
+
+  const p = toScreen(marker, rect);
+  ctx.save();
+  ctx.globalAlpha *= expiryAlpha(marker, now);
+  ctx.translate(p.x, p.y);
+  definition.draw(ctx);
+  ctx.restore();
+};
+
+// Expanding rings that repeat for the ping's lifetime and fade out at the end
+const PING_PERIOD_MS = 1000;
+const PING_MAX_RADIUS = 28;
+
+export const drawPing = (ctx: CanvasRenderingContext2D, ping: Ping, rect: RenderRect, now = Date.now()) => {
+  const p = toScreen(ping, rect);
+  const age = now - ping.createdAt;
+
+  ctx.save();
+  ctx.globalAlpha *= expiryAlpha(ping, now);
+  ctx.strokeStyle = ping.color;
+  ctx.fillStyle = ping.color;
+
+  for (let ring = 0; ring < 2; ring++) {
+    const t = ((age + ring * PING_PERIOD_MS / 2) % PING_PERIOD_MS) / PING_PERIOD_MS;
+    ctx.save();
+    ctx.globalAlpha *= 1 - t;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, 6 + t * PING_MAX_RADIUS, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  ctx.beginPath();
+  ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+};
+
+// Transforms ctx so that the map image, drawn into the returned rect, shows up in `rect` with the given
+// orientation. Callers save and restore the context around it.
+export const orientContext = (ctx: CanvasRenderingContext2D, rect: RenderRect, o: MapOrientation): RenderRect => {
+  const w = isQuarterTurn(o) ? rect.h : rect.w;
+  const h = isQuarterTurn(o) ? rect.w : rect.h;
+  ctx.translate(rect.x + rect.w / 2, rect.y + rect.h / 2);
+  ctx.rotate((o.rotation * Math.PI) / 180);
+  ctx.scale(o.flipX ? -1 : 1, o.flipY ? -1 : 1);
+  return { x: -w / 2, y: -h / 2, w, h };
+};
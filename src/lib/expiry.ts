@@ -0,0 +1,34 @@
+import { AnnotationSet, Expiring } from '../types';
+
+// Annotations with an expiry fade out over this final stretch instead of vanishing abruptly
+const FADE_OUT_MS = 1000;
+
+export const isExpired = (item: Expiring, now: number): boolean => {
+  return item.expiresAt !== undefined && item.expiresAt <= now;
+};
+
+// Opacity multiplier for an annotation at time `now` (1 = fully visible)
+export const expiryAlpha = (item: Expiring, now: number): number => {
+  if (item.expiresAt === undefined) return 1;
+  return Math.max(0, Math.min(1, (item.expiresAt - now) / FADE_OUT_MS));
+};
+
+// When an annotation's appearance next changes by itself: the start of its fade-out, `now` while it
+// is fading, or never (no expiry, or already gone). Lets renderers cache annotations until then.
+export const nextExpiryChange = (item: Expiring, now: number): number => {
+  if (item.expiresAt === undefined || item.expiresAt <= now) return Infinity;
+  return Math.max(now, item.expiresAt - FADE_OUT_MS);
+};
+
+// Drops expired drawings and markers from every layer. Returns the same object when nothing expired.
+export const pruneExpired = (set: AnnotationSet, now: number): AnnotationSet => {
+  let changed = false;
+  const layers = set.layers.map(layer => {
+    const drawings = layer.drawings.filter(d => !isExpired(d, now));
+    const markers = layer.markers.filter(m => !isExpired(m, now));
+    if (drawings.length === layer.drawings.length && markers.length === layer.markers.length) return layer;
+    changed = true;
+    return { ...layer, drawings, markers };
+  });
+  return changed ? { ...set, layers } : set;
+};
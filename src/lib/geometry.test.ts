@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { distanceToSegment, erasePath } from './geometry';
+import { DrawingPath } from '../types';
+
+const SCALE = { w: 100, h: 100 };
+
+// Horizontal stroke across the middle of the map, one point every 10px
+const stroke: DrawingPath = {
+  kind: 'path',
+  id: 'stroke',
+  color: '#ff0000',
+  width: 4,
+  points: [0, 1, 2, 3, 4, 5, 6, 7, 8].map(i => ({ x: 0.1 + i * 0.1, y: 0.5 })),
+  pressure: [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9]
+};
+
+describe('distanceToSegment', () => {
+  it('measures to the nearest point of the segment in pixels', () => {
+    expect(distanceToSegment({ x: 0.5, y: 0.6 }, { x: 0, y: 0.5 }, { x: 1, y: 0.5 }, SCALE)).toBeCloseTo(10);
+    expect(distanceToSegment({ x: 0, y: 0 }, { x: 0.3, y: 0 }, { x: 1, y: 0 }, SCALE)).toBeCloseTo(30);
+  });
+
+  it('treats a zero-length segment as a point', () => {
+    expect(distanceToSegment({ x: 0.3, y: 0.4 }, { x: 0, y: 0 }, { x: 0, y: 0 }, SCALE)).toBeCloseTo(50);
+  });
+});
+
+describe('erasePath', () => {
+  it('returns the same stroke when the eraser misses it', () => {
+    const [result] = erasePath(stroke, { x: 0.5, y: 0.9 }, 5, SCALE);
+    expect(result).toBe(stroke);
+  });
+
+  it('splits a stroke erased in the middle, keeping pressure aligned', () => {
+    const [left, right, ...rest] = erasePath(stroke, { x: 0.5, y: 0.5 }, 5, SCALE);
+
+    expect(rest).toHaveLength(0);
+    expect(left.points.map(p => p.x)).toEqual(stroke.points.slice(0, 4).map(p => p.x));
+    expect(left.pressure).toEqual([0.1, 0.2, 0.3, 0.4]);
+    expect(right.points.map(p => p.x)).toEqual(stroke.points.slice(5).map(p => p.x));
+    expect(right.pressure).toEqual([0.6, 0.7, 0.8, 0.9]);
+  });
+
+  it('keeps the id on the first piece and gives later pieces new ones', () => {
+    const [left, right] = erasePath(stroke, { x: 0.5, y: 0.5 }, 5, SCALE);
+
+    expect(left.id).toBe(stroke.id);
+    expect(right.id).not.toBe(stroke.id);
+  });
+
+  it('cuts a segment that passes through the eraser between two points', () => {
+    const sparse: DrawingPath = { ...stroke, points: [{ x: 0.1, y: 0.5 }, { x: 0.9, y: 0.5 }], pressure: undefined };
+    expect(erasePath(sparse, { x: 0.5, y: 0.5 }, 5, SCALE)).toEqual([]);
+  });
+
+  it('drops pieces too short to draw', () => {
+    const pieces = erasePath(stroke, { x: 0.25, y: 0.5 }, 12, SCALE);
+    expect(pieces.every(piece => piece.points.length > 1)).toBe(true);
+    expect(pieces).toHaveLength(1);
+  });
+});
@@ -0,0 +1,315 @@
+import { Drawing, DrawingPath, MapOrientation, Point, ShapeDrawing, TextLabel } from '../types';
+import { createId } from './ids';
+
+// Size of the rendered map in screen pixels.
+// Annotations are stored normalized (0..1), so hit-testing scales by this to measure in pixels
+// and to stay correct when the crop region is not square.
+export interface RenderScale {
+  w: number;
+  h: number;
+  // Display orientation; text labels stay upright on screen, so their extent in map coordinates depends on it
+  orientation?: MapOrientation;
+}
+
+// Where the map is drawn on the canvas, in canvas pixels
+export interface RenderRect extends RenderScale {
+  x: number;
+  y: number;
+}
+
+export const toScreen = (p: Point, rect: RenderRect): Point => ({
+  x: rect.x + p.x * rect.w,
+  y: rect.y + p.y * rect.h
+});
+
+// Largest rect with the given aspect ratio centred in a w×h area (letterbox/pillarbox)
+export const fitRect = (aspect: number, w: number, h: number): RenderRect => {
+  // If the area is wider than the content, we need pillarbox (side bars)
+  // If the area is taller than the content, we need letterbox (top/bottom bars)
+  if (w / h > aspect) {
+    const fitW = h * aspect;
+    return { x: (w - fitW) / 2, y: 0, w: fitW, h };
+  }
+  const fitH = w / aspect;
+  return { x: 0, y: (h - fitH) / 2, w, h: fitH };
+};
+
+// --- Orientation. "View" coordinates are normalized (0..1) to the map as displayed, rotated and flipped. ---
+
+export const DEFAULT_ORIENTATION: MapOrientation = { rotation: 0, flipX: false, flipY: false };
+
+export const isQuarterTurn = (o: MapOrientation) => o.rotation === 90 || o.rotation === 270;
+
+export const toView = (p: Point, o: MapOrientation): Point => {
+  const x = o.flipX ? 1 - p.x : p.x;
+  const y = o.flipY ? 1 - p.y : p.y;
+  switch (o.rotation) {
+    case 90: return { x: 1 - y, y: x };
+    case 180: return { x: 1 - x, y: 1 - y };
+    case 270: return { x: y, y: 1 - x };
+    default: return { x, y };
+  }
+};
+
+export const fromView = (p: Point, o: MapOrientation): Point => {
+  let x = p.x;
+  let y = p.y;
+  if (o.rotation === 90) { x = p.y; y = 1 - p.x; }
+  else if (o.rotation === 180) { x = 1 - p.x; y = 1 - p.y; }
+  else if (o.rotation === 270) { x = 1 - p.y; y = p.x; }
+  return { x: o.flipX ? 1 - x : x, y: o.flipY ? 1 - y : y };
+};
+
+// Aspect ratio (width / height) of the map as displayed
+export const orientedAspect = (aspect: number, o: MapOrientation) => isQuarterTurn(o) ? 1 / aspect : aspect;
+
+// Pixel scale of the map's own axes when it is displayed at `view` size; a quarter turn swaps them.
+// Use this for hit-testing in map coordinates.
+export const mapScale = (view: RenderScale, o: MapOrientation): RenderScale => ({
+  w: isQuarterTurn(o) ? view.h : view.w,
+  h: isQuarterTurn(o) ? view.w : view.h,
+  orientation: o
+});
+
+// Approximate glyph width relative to font size, used where no canvas context is available for measureText
+const TEXT_WIDTH_FACTOR = 0.6;
+
+export const screenDistance = (a: Point, b: Point, scale: RenderScale): number => {
+  return Math.hypot((a.x - b.x) * scale.w, (a.y - b.y) * scale.h);
+};
+
+// Shortest pixel distance from point p to the segment a-b
+export const distanceToSegment = (p: Point, a: Point, b: Point, scale: RenderScale): number => {
+  const abx = (b.x - a.x) * scale.w;
+  const aby = (b.y - a.y) * scale.h;
+  const apx = (p.x - a.x) * scale.w;
+  const apy = (p.y - a.y) * scale.h;
+  const lenSq = abx * abx + aby * aby;
+
+  if (lenSq === 0) return Math.hypot(apx, apy);
+
+  const t = Math.max(0, Math.min(1, (apx * abx + apy * aby) / lenSq));
+  return Math.hypot(apx - t * abx, apy - t * aby);
+};
+
+// Removes the part of a path covered by a circular eraser.
+// Points inside the circle are dropped and segments crossing it are cut, so one stroke
+// may come back as several. Fragments shorter than 2 points are discarded.
+// Returns the original path (same reference) when the eraser does not touch it.
+export const erasePath = (path: DrawingPath, center: Point, radius: number, scale: RenderScale): DrawingPath[] => {
+  const { points } = path;
+  // Pieces are index runs so per-point data like pressure stays aligned
+  const pieces: number[][] = [];
+  let current: number[] = [];
+  let touched = false;
+
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+
+    if (screenDistance(p, center, scale) <= radius) {
+      touched = true;
+      if (current.length) pieces.push(current);
+      current = [];
+      continue;
+    }
+
+    // Both ends survive but the segment between them passes through the eraser
+    const prev = points[i - 1];
+    if (current.length && prev && distanceToSegment(center, prev, p, scale) <= radius) {
+      touched = true;
+      pieces.push(current);
+      current = [];
+    }
+
+    current.push(i);
+  }
+  if (current.length) pieces.push(current);
+
+  if (!touched) return [path];
+
+  // The first piece keeps the stroke's id; the others are new strokes
+  return pieces
+    .filter(piece => piece.length > 1)
+    .map((piece, i) => ({ ...pickPoints(path, piece), ...(i > 0 && { id: createId('drawing') }) }));
+};
+
+// Copy of a path keeping only the given point indices
+const pickPoints = (path: DrawingPath, indices: number[]): DrawingPath => {
+  const next: DrawingPath = { ...path, points: indices.map(i => path.points[i]) };
+  if (path.pressure) next.pressure = indices.map(i => path.pressure![i]);
+  return next;
+};
+
+// Ramer–Douglas–Peucker simplification. Returns the indices of the points to keep, dropping
+// those that deviate less than `tolerance` pixels from the simplified line.
+export const simplifyIndices = (points: Point[], tolerance: number, scale: RenderScale): number[] => {
+  if (points.length < 3) return points.map((_, i) => i);
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on very long strokes
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const d = distanceToSegment(points[i], points[first], points[last], scale);
+      if (d > maxDist) {
+        maxDist = d;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.map((_, i) => i).filter(i => keep[i]);
+};
+
+// Simplifies a stroke before it is committed, keeping committed plans compact without visible change
+export const simplifyStroke = (path: DrawingPath, tolerance: number, scale: RenderScale): DrawingPath => {
+  return pickPoints(path, simplifyIndices(path.points, tolerance, scale));
+};
+
+// Outline of an ellipse shape as a polygon, in normalized coordinates
+export const ellipsePoints = (shape: ShapeDrawing, segments = 32): Point[] => {
+  const cx = (shape.start.x + shape.end.x) / 2;
+  const cy = (shape.start.y + shape.end.y) / 2;
+  const rx = Math.abs(shape.end.x - shape.start.x) / 2;
+  const ry = Math.abs(shape.end.y - shape.start.y) / 2;
+  const points: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const a = (i / segments) * Math.PI * 2;
+    points.push({ x: cx + Math.cos(a) * rx, y: cy + Math.sin(a) * ry });
+  }
+  return points;
+};
+
+export const rectPoints = (shape: ShapeDrawing): Point[] => [
+  shape.start,
+  { x: shape.end.x, y: shape.start.y },
+  shape.end,
+  { x: shape.start.x, y: shape.end.y },
+  shape.start
+];
+
+// Normalized bounding box of a text label. Width is estimated from character count.
+// Labels are drawn upright in the view, so the box is measured there and mapped back.
+export const textBounds = (label: TextLabel, scale: RenderScale) => {
+  const o = scale.orientation ?? DEFAULT_ORIENTATION;
+  const view = isQuarterTurn(o) ? { w: scale.h, h: scale.w } : scale;
+  const fontPx = label.size * view.h;
+  const w = view.w ? (label.text.length * fontPx * TEXT_WIDTH_FACTOR) / view.w : 0;
+  const anchor = toView(label, o);
+  const a = fromView({ x: anchor.x, y: anchor.y - label.size }, o);
+  const b = fromView({ x: anchor.x + w, y: anchor.y }, o);
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(b.x - a.x), h: Math.abs(b.y - a.y) };
+};
+
+const distanceToPolyline = (p: Point, points: Point[], scale: RenderScale): number => {
+  if (points.length === 1) return screenDistance(p, points[0], scale);
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    min = Math.min(min, distanceToSegment(p, points[i - 1], points[i], scale));
+  }
+  return min;
+};
+
+// True when a circle of `radius` pixels around the point touches the drawing's visible outline
+export const hitTestDrawing = (drawing: Drawing, point: Point, radius: number, scale: RenderScale): boolean => {
+  switch (drawing.kind) {
+    case 'path':
+      return distanceToPolyline(point, drawing.points, scale) <= radius + drawing.width / 2;
+    case 'arrow':
+      return distanceToSegment(point, drawing.start, drawing.end, scale) <= radius + drawing.width / 2;
+    case 'rect':
+      return distanceToPolyline(point, rectPoints(drawing), scale) <= radius + drawing.width / 2;
+    case 'ellipse':
+      return distanceToPolyline(point, ellipsePoints(drawing), scale) <= radius + drawing.width / 2;
+    case 'text': {
+      const b = textBounds(drawing, scale);
+      const dx = Math.max(b.x - point.x, 0, point.x - (b.x + b.w)) * scale.w;
+      const dy = Math.max(b.y - point.y, 0, point.y - (b.y + b.h)) * scale.h;
+      return Math.hypot(dx, dy) <= radius;
+    }
+  }
+};
+
+// Normalized axis-aligned bounding box
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Points that define a drawing's extent, used for lasso selection and bounds
+export const drawingPoints = (drawing: Drawing, scale: RenderScale): Point[] => {
+  switch (drawing.kind) {
+    case 'path':
+      return drawing.points;
+    case 'arrow':
+    case 'ellipse':
+    case 'rect':
+      return [drawing.start, drawing.end];
+    case 'text': {
+      const b = textBounds(drawing, scale);
+      return [{ x: b.x, y: b.y }, { x: b.x + b.w, y: b.y + b.h }];
+    }
+  }
+};
+
+export const boundsOf = (points: Point[]): Bounds | null => {
+  if (!points.length) return null;
+  const b = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  points.forEach(p => {
+    b.minX = Math.min(b.minX, p.x);
+    b.minY = Math.min(b.minY, p.y);
+    b.maxX = Math.max(b.maxX, p.x);
+    b.maxY = Math.max(b.maxY, p.y);
+  });
+  return b;
+};
+
+// Even-odd ray casting
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Maps every coordinate of a drawing through fn. `scale` multiplies size-like values (text size);
+// stroke widths stay in fixed pixels.
+export const transformDrawing = (drawing: Drawing, fn: (p: Point) => Point, scale = 1): Drawing => {
+  switch (drawing.kind) {
+    case 'path':
+      return { ...drawing, points: drawing.points.map(fn) };
+    case 'arrow':
+    case 'ellipse':
+    case 'rect':
+      return { ...drawing, start: fn(drawing.start), end: fn(drawing.end) };
+    case 'text': {
+      const p = fn(drawing);
+      return { ...drawing, x: p.x, y: p.y, size: drawing.size * scale };
+    }
+  }
+};
+
+// Drawing in view coordinates, for rendering. Labels keep their anchor point and stay upright.
+export const orientDrawing = (drawing: Drawing, o: MapOrientation): Drawing => transformDrawing(drawing, p => toView(p, o));
+
+// Map-coordinate bounds as displayed; quarter turns and flips keep boxes axis-aligned
+export const orientBounds = (b: Bounds, o: MapOrientation): Bounds => boundsOf([
+  toView({ x: b.minX, y: b.minY }, o),
+  toView({ x: b.maxX, y: b.maxY }, o)
+])!;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { closeBatch, initialHistory, openBatch, recordChange, redoStep, undoStep } from './history';
+
+const LIMIT = 100;
+
+// Records each value as its own undo step
+const record = (values: string[], limit = LIMIT) =>
+  values.reduce((state, value) => recordChange(state, value, limit, false), initialHistory('a'));
+
+describe('recordChange', () => {
+  it('pushes the previous present and clears redo', () => {
+    const undone = undoStep(record(['b', 'c']));
+    expect(undone).toEqual({ past: ['a'], present: 'b', future: ['c'] });
+
+    expect(recordChange(undone, 'd', LIMIT, false)).toEqual({ past: ['a', 'b'], present: 'd', future: [] });
+  });
+
+  it('ignores a change to the same value', () => {
+    const state = record(['b']);
+    expect(recordChange(state, 'b', LIMIT, false)).toBe(state);
+  });
+
+  it('drops the oldest entries past the limit', () => {
+    expect(record(['b', 'c', 'd'], 2).past).toEqual(['b', 'c']);
+  });
+});
+
+describe('undoStep and redoStep', () => {
+  it('walk back and forth through the recorded values', () => {
+    const state = record(['b', 'c']);
+    const twiceUndone = undoStep(undoStep(state));
+    expect(twiceUndone).toEqual({ past: [], present: 'a', future: ['b', 'c'] });
+    expect(redoStep(redoStep(twiceUndone, LIMIT), LIMIT)).toEqual(state);
+  });
+
+  it('leave the state alone at either end', () => {
+    const start = initialHistory('a');
+    expect(undoStep(start)).toBe(start);
+    expect(redoStep(start, LIMIT)).toBe(start);
+  });
+});
+
+describe('batches', () => {
+  it('group every change into one undo step', () => {
+    let state = openBatch(record(['b']), LIMIT);
+    state = recordChange(state, 'c', LIMIT, true);
+    state = recordChange(state, 'd', LIMIT, true);
+    state = closeBatch(state);
+
+    expect(state).toEqual({ past: ['a', 'b'], present: 'd', future: [] });
+    expect(undoStep(state).present).toBe('b');
+  });
+
+  it('keep redo when nothing changes', () => {
+    const undone = undoStep(record(['b']));
+    const state = closeBatch(openBatch(undone, LIMIT));
+
+    expect(state).toEqual(undone);
+    expect(redoStep(state, LIMIT).present).toBe('b');
+  });
+
+  it('clear redo once a change happens', () => {
+    let state = openBatch(undoStep(record(['b'])), LIMIT);
+    expect(state.future).toEqual(['b']);
+
+    state = closeBatch(recordChange(state, 'c', LIMIT, true));
+    expect(state).toEqual({ past: ['a'], present: 'c', future: [] });
+  });
+
+  it('leave no step behind when a change is reverted within the batch', () => {
+    let state = openBatch(record(['b']), LIMIT);
+    state = recordChange(state, 'c', LIMIT, true);
+    state = closeBatch(recordChange(state, 'b', LIMIT, true));
+
+    expect(state.past).toEqual(['a']);
+  });
+});
@@ -0,0 +1,144 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Default number of undo steps kept. Older entries are dropped so long sessions stay bounded.
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export type HistoryUpdate<T> = T | ((prev: T) => T);
+
+export interface History<T> {
+  present: T;
+  set: (update: HistoryUpdate<T>) => void;
+  // Change the present without recording an undo step (e.g. pruning expired annotations)
+  replace: (update: HistoryUpdate<T>) => void;
+  // Start over from a value with empty undo/redo stacks (e.g. switching playbook steps)
+  reset: (value: T) => void;
+  // The whole undo state, to set aside and bring back later with restore() (e.g. the board while a playbook is open)
+  snapshot: HistoryState<T>;
+  restore: (saved: HistoryState<T>) => void;
+  undo: () => void;
+  redo: () => void;
+  // Group every change until endBatch() into a single undo step (e.g. one eraser drag)
+  beginBatch: () => void;
+  endBatch: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const pushCapped = <T>(stack: T[], item: T, limit: number): T[] => {
+  const next = [...stack, item];
+  return next.length > limit ? next.slice(next.length - limit) : next;
+};
+
+// --- Transitions ---
+// Pure steps behind the hook below. Each returns the same state object when nothing changes.
+
+export const initialHistory = <T>(value: T): HistoryState<T> => ({ past: [], present: value, future: [] });
+
+// A new present. Inside a batch the checkpoint was already pushed by openBatch(); either way redo is gone.
+export const recordChange = <T>(state: HistoryState<T>, next: T, limit: number, inBatch: boolean): HistoryState<T> => {
+  if (next === state.present) return state;
+  if (inBatch) return { ...state, present: next, future: [] };
+  return { past: pushCapped(state.past, state.present, limit), present: next, future: [] };
+};
+
+// Push a checkpoint for a batch. Redo survives until a change actually happens, so an empty batch
+// (an eraser click that hits nothing) leaves it alone.
+export const openBatch = <T>(state: HistoryState<T>, limit: number): HistoryState<T> =>
+  ({ ...state, past: pushCapped(state.past, state.present, limit) });
+
+// Drop the checkpoint if nothing changed during the batch
+export const closeBatch = <T>(state: HistoryState<T>): HistoryState<T> => {
+  const checkpoint = state.past[state.past.length - 1];
+  return checkpoint === state.present ? { ...state, past: state.past.slice(0, -1) } : state;
+};
+
+export const undoStep = <T>(state: HistoryState<T>): HistoryState<T> => {
+  if (!state.past.length) return state;
+  return {
+    past: state.past.slice(0, -1),
+    present: state.past[state.past.length - 1],
+    future: [state.present, ...state.future]
+  };
+};
+
+export const redoStep = <T>(state: HistoryState<T>, limit: number): HistoryState<T> => {
+  if (!state.future.length) return state;
+  return {
+    past: pushCapped(state.past, state.present, limit),
+    present: state.future[0],
+    future: state.future.slice(1)
+  };
+};
+
+// Snapshot-based undo/redo. Values are treated as immutable; a set() that returns
+// the same reference is ignored and does not create an entry.
+export const useHistory = <T>(initial: T, limit = DEFAULT_HISTORY_LIMIT): History<T> => {
+  const [state, setState] = useState<HistoryState<T>>(() => initialHistory(initial));
+  const batchRef = useRef(false);
+
+  const set = useCallback((update: HistoryUpdate<T>) => {
+    // Read outside the updater: React may run it after the batch has ended
+    const inBatch = batchRef.current;
+    setState(prev => {
+      const next = typeof update === 'function' ? (update as (p: T) => T)(prev.present) : update;
+      return recordChange(prev, next, limit, inBatch);
+    });
+  }, [limit]);
+
+  const replace = useCallback((update: HistoryUpdate<T>) => {
+    setState(prev => {
+      const next = typeof update === 'function' ? (update as (p: T) => T)(prev.present) : update;
+      return next === prev.present ? prev : { ...prev, present: next };
+    });
+  }, []);
+
+  const restore = useCallback((saved: HistoryState<T>) => {
+    batchRef.current = false;
+    setState(saved);
+  }, []);
+
+  const reset = useCallback((value: T) => restore(initialHistory(value)), [restore]);
+
+  const beginBatch = useCallback(() => {
+    if (batchRef.current) return;
+    batchRef.current = true;
+    setState(prev => openBatch(prev, limit));
+  }, [limit]);
+
+  const endBatch = useCallback(() => {
+    if (!batchRef.current) return;
+    batchRef.current = false;
+    setState(closeBatch);
+  }, []);
+
+  const undo = useCallback(() => {
+    if (batchRef.current) return;
+    setState(undoStep);
+  }, []);
+
+  const redo = useCallback(() => {
+    if (batchRef.current) return;
+    setState(prev => redoStep(prev, limit));
+  }, [limit]);
+
+  return {
+    present: state.present,
+    set,
+    replace,
+    reset,
+    snapshot: state,
+    restore,
+    undo,
+    redo,
+    beginBatch,
+    endBatch,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+};
@@ -0,0 +1,6 @@
+// Ids for everything the app creates. A timestamp alone repeats when two items are made in the
+// same millisecond (a fast double-tap), so a per-session counter and a random suffix are added.
+let counter = 0;
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${(counter++).toString(36)}${Math.random().toString(36).slice(2, 6)}`;
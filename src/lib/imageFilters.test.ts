@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { CVD_MODES, DEFAULT_IMAGE_FILTERS, applyImageFilters, colorMatrix } from './imageFilters';
+import { ImageFilters } from '../types';
+
+// Applies a colour matrix to one pixel, clamped like ImageData
+const transform = (f: ImageFilters, [R, G, B]: number[]) =>
+  colorMatrix(f).map(row => Math.max(0, Math.min(255, row[0] * R + row[1] * G + row[2] * B + row[3])));
+
+const image = (pixels: number[][], width: number) => {
+  const data = new Uint8ClampedArray(pixels.flatMap(([r, g, b]) => [r, g, b, 255]));
+  return { data, width, height: pixels.length / width, colorSpace: 'srgb' } as ImageData;
+};
+
+describe('colorMatrix', () => {
+  it('is the identity with default settings', () => {
+    expect(colorMatrix(DEFAULT_IMAGE_FILTERS)).toEqual([[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0]]);
+  });
+
+  it('pivots contrast around mid-grey', () => {
+    const contrast = { ...DEFAULT_IMAGE_FILTERS, contrast: 2 };
+    expect(transform(contrast, [128, 128, 128])).toEqual([128, 128, 128]);
+    expect(transform(contrast, [100, 100, 100]).map(Math.round)).toEqual([72, 72, 72]);
+  });
+
+  it('turns colours grey at zero saturation', () => {
+    const [r, g, b] = transform({ ...DEFAULT_IMAGE_FILTERS, saturation: 0 }, [255, 0, 0]);
+    expect(g).toBeCloseTo(r);
+    expect(b).toBeCloseTo(r);
+  });
+
+  it.each(CVD_MODES.filter(mode => mode !== 'none'))('leaves greys unchanged for %s', cvd => {
+    transform({ ...DEFAULT_IMAGE_FILTERS, cvd }, [90, 90, 90]).forEach(v => expect(v).toBeCloseTo(90, 0));
+  });
+
+  it('separates red and green for deuteranopia', () => {
+    const f = { ...DEFAULT_IMAGE_FILTERS, cvd: 'deuteranopia' as const };
+    const red = transform(f, [200, 40, 40]);
+    const green = transform(f, [40, 160, 40]);
+    // The error shift moves the red/green difference into blue, which the viewer still sees
+    expect(Math.abs(red[2] - green[2])).toBeGreaterThan(50);
+  });
+});
+
+describe('applyImageFilters', () => {
+  it('leaves the pixels alone with default settings', () => {
+    const img = image([[10, 20, 30], [200, 100, 50]], 2);
+    const before = img.data.slice();
+    applyImageFilters(img, DEFAULT_IMAGE_FILTERS);
+    expect(img.data).toEqual(before);
+  });
+
+  it('sharpens edges but not flat areas', () => {
+    const img = image([[50, 50, 50], [50, 50, 50], [150, 150, 150], [150, 150, 150]], 4);
+    applyImageFilters(img, { ...DEFAULT_IMAGE_FILTERS, sharpen: 1 });
+    expect([0, 1, 2, 3].map(i => img.data[i * 4])).toEqual([50, 25, 175, 150]);
+  });
+});
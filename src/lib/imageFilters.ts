@@ -0,0 +1,135 @@
+import { CvdMode, ImageFilters } from '../types';
+
+const IMAGE_FILTERS_KEY = 'deadlock-map-image-filters';
+
+export const DEFAULT_IMAGE_FILTERS: ImageFilters = { brightness: 1, contrast: 1, saturation: 1, sharpen: 0, cvd: 'none' };
+
+// Slider ranges offered in the display panel
+export const FILTER_RANGES: Record<'brightness' | 'contrast' | 'saturation' | 'sharpen', { min: number; max: number; step: number }> = {
+  brightness: { min: 0.5, max: 2, step: 0.05 },
+  contrast: { min: 0.5, max: 2, step: 0.05 },
+  saturation: { min: 0, max: 2, step: 0.05 },
+  sharpen: { min: 0, max: 2, step: 0.1 }
+};
+
+export const CVD_MODES: CvdMode[] = ['none', 'protanopia', 'deuteranopia', 'tritanopia'];
+
+export const CVD_LABELS: Record<CvdMode, string> = {
+  none: 'Off',
+  protanopia: 'Protanopia (red)',
+  deuteranopia: 'Deuteranopia (green)',
+  tritanopia: 'Tritanopia (blue)'
+};
+
+export const isNeutral = (f: ImageFilters) =>
+  f.brightness === 1 && f.contrast === 1 && f.saturation === 1 && f.sharpen === 0 && f.cvd === 'none';
+
+const clampTo = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+export const loadImageFilters = (): ImageFilters => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(IMAGE_FILTERS_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return {
+        brightness: clampTo(stored.brightness, FILTER_RANGES.brightness, 1),
+        contrast: clampTo(stored.contrast, FILTER_RANGES.contrast, 1),
+        saturation: clampTo(stored.saturation, FILTER_RANGES.saturation, 1),
+        sharpen: clampTo(stored.sharpen, FILTER_RANGES.sharpen, 0),
+        cvd: CVD_MODES.includes(stored.cvd) ? stored.cvd : 'none'
+      };
+    }
+  } catch {
+    // Corrupt entry: fall back to no adjustments
+  }
+  return DEFAULT_IMAGE_FILTERS;
+};
+
+export const storeImageFilters = (filters: ImageFilters) => {
+  localStorage.setItem(IMAGE_FILTERS_KEY, JSON.stringify(filters));
+};
+
+// --- Colour transform ---
+// Brightness, contrast, saturation and the CVD remap are all affine in RGB, so they fold into one
+// 3x4 matrix (rows: r, g, b; last column is the offset) applied once per pixel.
+
+type Matrix3 = number[][];
+export type ColorMatrix = number[][];
+
+const IDENTITY: Matrix3 = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 =>
+  a.map(row => [0, 1, 2].map(j => row[0] * b[0][j] + row[1] * b[1][j] + row[2] * b[2][j]));
+
+const subtract = (a: Matrix3, b: Matrix3): Matrix3 => a.map((row, i) => row.map((v, j) => v - b[i][j]));
+const add = (a: Matrix3, b: Matrix3): Matrix3 => a.map((row, i) => row.map((v, j) => v + b[i][j]));
+
+// Daltonization: simulate what the viewer sees, then move the colour difference they lose into
+// channels they can still tell apart. Simulation matrices are Machado et al. (2009) at full severity.
+const CVD_SIMULATION: Record<Exclude<CvdMode, 'none'>, Matrix3> = {
+  protanopia: [[0.152286, 1.052583, -0.204868], [0.114503, 0.786281, 0.099216], [-0.003882, -0.048116, 1.051998]],
+  deuteranopia: [[0.367322, 0.860646, -0.227968], [0.280085, 0.672501, 0.047413], [-0.01182, 0.04294, 0.968881]],
+  tritanopia: [[1.255528, -0.076749, -0.178779], [-0.078411, 0.930809, 0.147602], [0.004733, 0.691367, 0.3039]]
+};
+// Where the lost difference goes: red-green errors into green and blue, blue-yellow errors into red and green
+const RED_GREEN_SHIFT: Matrix3 = [[0, 0, 0], [0.7, 1, 0], [0.7, 0, 1]];
+const ERROR_SHIFT: Record<Exclude<CvdMode, 'none'>, Matrix3> = {
+  protanopia: RED_GREEN_SHIFT,
+  deuteranopia: RED_GREEN_SHIFT,
+  tritanopia: [[1, 0, 0.7], [0, 1, 0.7], [0, 0, 0]]
+};
+
+const daltonizeMatrix = (mode: CvdMode): Matrix3 => {
+  if (mode === 'none') return IDENTITY;
+  return add(IDENTITY, multiply(ERROR_SHIFT[mode], subtract(IDENTITY, CVD_SIMULATION[mode])));
+};
+
+// Rec. 709 luma weights, for desaturating towards grey
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+export const colorMatrix = (f: ImageFilters): ColorMatrix => {
+  const saturate: Matrix3 = [0, 1, 2].map(i => LUMA.map((w, j) => (1 - f.saturation) * w + (i === j ? f.saturation : 0)));
+  const linear = multiply(daltonizeMatrix(f.cvd), multiply(saturate, multiply(
+    [[f.contrast, 0, 0], [0, f.contrast, 0], [0, 0, f.contrast]],
+    [[f.brightness, 0, 0], [0, f.brightness, 0], [0, 0, f.brightness]]
+  )));
+  // Contrast pivots around mid-grey; the offset then goes through saturation and the CVD remap
+  const pivot = 128 * (1 - f.contrast);
+  const offset = multiply(daltonizeMatrix(f.cvd), saturate).map(row => pivot * (row[0] + row[1] + row[2]));
+  return linear.map((row, i) => [...row, offset[i]]);
+};
+
+// Adjusts the pixels in place. Sharpening is an unsharp mask against the 4-neighbour average, so it
+// brings back edges the upscale to the map canvas would otherwise blur.
+export const applyImageFilters = (image: ImageData, f: ImageFilters) => {
+  const { data, width, height } = image;
+  if (f.sharpen > 0) {
+    const source = data.slice();
+    const centre = 1 + f.sharpen;
+    const side = f.sharpen / 4;
+    for (let y = 0; y < height; y++) {
+      const up = (y > 0 ? y - 1 : y) * width;
+      const down = (y < height - 1 ? y + 1 : y) * width;
+      for (let x = 0; x < width; x++) {
+        const left = x > 0 ? x - 1 : x;
+        const right = x < width - 1 ? x + 1 : x;
+        const i = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) {
+          data[i + c] = centre * source[i + c] - side * (
+            source[(up + x) * 4 + c] + source[(down + x) * 4 + c] + source[(y * width + left) * 4 + c] + source[(y * width + right) * 4 + c]
+          );
+        }
+      }
+    }
+  }
+
+  if (f.brightness === 1 && f.contrast === 1 && f.saturation === 1 && f.cvd === 'none') return;
+  const [r, g, b] = colorMatrix(f);
+  for (let i = 0; i < data.length; i += 4) {
+    const R = data[i], G = data[i + 1], B = data[i + 2];
+    // ImageData clamps to 0..255 on write
+    data[i] = r[0] * R + r[1] * G + r[2] * B + r[3];
+    data[i + 1] = g[0] * R + g[1] * G + g[2] * B + g[3];
+    data[i + 2] = b[0] * R + b[1] * G + b[2] * B + b[3];
+  }
+};
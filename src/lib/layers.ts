@@ -0,0 +1,45 @@
+import { AnnotationSet, Layer, LayerView } from '../types';
+import { createId } from './ids';
+
+export const DEFAULT_LAYER_VIEW: LayerView = { visible: true, locked: false };
+
+export const createLayer = (name: string, id = createId('layer')): Layer => ({
+  id,
+  name,
+  drawings: [],
+  markers: []
+});
+
+// Long-lived strategy, in-the-moment scribbles, and AI output each get their own layer
+export const createDefaultAnnotations = (): AnnotationSet => ({
+  layers: [createLayer('Plan', 'plan'), createLayer('Live', 'live'), createLayer('AI', 'ai')]
+});
+
+export const DEFAULT_ACTIVE_LAYER_ID = 'plan';
+
+export const isLayerEmpty = (layer: Layer) => !layer.drawings.length && !layer.markers.length;
+
+// Applies fn to one layer. Returns the same set when fn returns the layer unchanged.
+export const updateLayer = (set: AnnotationSet, id: string, fn: (layer: Layer) => Layer): AnnotationSet => {
+  let changed = false;
+  const layers = set.layers.map(layer => {
+    if (layer.id !== id) return layer;
+    const next = fn(layer);
+    if (next !== layer) changed = true;
+    return next;
+  });
+  return changed ? { ...set, layers } : set;
+};
+
+// Moves a layer up (towards the top of the stack, drawn later) or down
+export const moveLayer = (set: AnnotationSet, id: string, direction: 1 | -1): AnnotationSet => {
+  const index = set.layers.findIndex(l => l.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= set.layers.length) return set;
+
+  const layers = [...set.layers];
+  [layers[index], layers[target]] = [layers[target], layers[index]];
+  return { ...set, layers };
+};
+
+export const clearLayer = (layer: Layer): Layer => isLayerEmpty(layer) ? layer : { ...layer, drawings: [], markers: [] };
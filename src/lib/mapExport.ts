@@ -0,0 +1,212 @@
+import { CropRegion, Drawing, DrawingPath, Layer, MapOrientation, Point, ShapeDrawing, TextLabel } from '../types';
+import { RenderRect, isQuarterTurn, orientDrawing, toScreen, toView } from './geometry';
+import { drawDrawing, drawMarker, orientContext } from './drawingRenderer';
+import { isExpired } from './expiry';
+import { MARKER_TYPES } from './markers';
+
+// Image export of the annotated map
+// ================================
+// Exports contain the cropped map frame plus the given (visible) layers only: no pings,
+// selection outlines, drafts or other editing UI. Annotations keep the pixel sizes they have
+// on screen, so `size` should be the map's on-screen size; PNGs are rendered at `pixelRatio`×.
+// The map is exported as displayed, in the given orientation; `size` is the displayed (rotated) size.
+
+export interface MapExportOptions {
+  // Current video frame; when missing the map area is left dark
+  frame: CanvasImageSource | null;
+  crop: CropRegion;
+  layers: Layer[];
+  size: { w: number; h: number };
+  orientation: MapOrientation;
+}
+
+const PNG_PIXEL_RATIO = 2;
+// Longest side of frame snapshots, in pixels
+const SNAPSHOT_MAX_SIZE = 1024;
+
+const drawFrame = (ctx: CanvasRenderingContext2D, frame: CanvasImageSource | null, crop: CropRegion, rect: RenderRect, orientation: MapOrientation) => {
+  ctx.fillStyle = '#111';
+  ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+  if (!frame) return;
+  ctx.save();
+  const map = orientContext(ctx, rect, orientation);
+  ctx.drawImage(frame, crop.x, crop.y, crop.width, crop.height, map.x, map.y, map.w, map.h);
+  ctx.restore();
+};
+
+// The cropped map as captured: upright, unfiltered and without annotations, zoom or overlays.
+// Used for AI analysis, which needs the game's own colours and layout. Returns a PNG data URL.
+export const snapshotFrame = (frame: CanvasImageSource, crop: CropRegion): string | null => {
+  const scale = Math.min(1, SNAPSHOT_MAX_SIZE / Math.max(crop.width, crop.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(frame, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+export const renderMapPng = ({ frame, crop, layers, size, orientation }: MapExportOptions, pixelRatio = PNG_PIXEL_RATIO): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(size.w * pixelRatio);
+  canvas.height = Math.round(size.h * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D context unavailable'));
+
+  ctx.scale(pixelRatio, pixelRatio);
+  const rect: RenderRect = { x: 0, y: 0, ...size };
+  const now = Date.now();
+  drawFrame(ctx, frame, crop, rect, orientation);
+  layers.forEach(layer => {
+    layer.drawings.forEach(drawing => {
+      if (!isExpired(drawing, now)) drawDrawing(ctx, orientDrawing(drawing, orientation), rect, now);
+    });
+    layer.markers.forEach(marker => {
+      if (!isExpired(marker, now)) drawMarker(ctx, { ...marker, ...toView(marker, orientation) }, rect, now);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+};
+
+// --- SVG. Mirrors drawingRenderer element by element so both exports look the same. ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const num = (n: number) => Number(n.toFixed(2));
+
+const pt = (p: Point) => `${num(p.x)} ${num(p.y)}`;
+
+// Stylus pressure 0.5 maps to the nominal width, as on the canvas
+const pressureWidth = (width: number, pressure: number) => width * (0.5 + pressure);
+
+const strokeAttrs = (color: string, width: number) =>
+  `fill="none" stroke="${escapeXml(color)}" stroke-width="${num(width)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+// Quadratic curves through segment midpoints, matching strokePath on the canvas
+const pathSvg = (path: DrawingPath, rect: RenderRect): string => {
+  if (path.points.length < 2) return '';
+  const points = path.points.map(p => toScreen(p, rect));
+
+  if (path.pressure) {
+    // One element per piece so each can carry its own width
+    const pieces: string[] = [];
+    let from = points[0];
+    for (let i = 1; i < points.length; i++) {
+      const isLast = i === points.length - 1;
+      const to = isLast ? points[i] : { x: (points[i].x + points[i + 1].x) / 2, y: (points[i].y + points[i + 1].y) / 2 };
+      const d = isLast ? `M${pt(from)}L${pt(to)}` : `M${pt(from)}Q${pt(points[i])} ${pt(to)}`;
+      pieces.push(`<path d="${d}" ${strokeAttrs(path.color, pressureWidth(path.width, path.pressure[i] ?? 0.5))}/>`);
+      from = to;
+    }
+    return pieces.join('');
+  }
+
+  let d = `M${pt(points[0])}`;
+  for (let i = 1; i < points.length - 1; i++) {
+    d += `Q${pt(points[i])} ${pt({ x: (points[i].x + points[i + 1].x) / 2, y: (points[i].y + points[i + 1].y) / 2 })}`;
+  }
+  d += `L${pt(points[points.length - 1])}`;
+  return `<path d="${d}" ${strokeAttrs(path.color, path.width)}/>`;
+};
+
+const arrowSvg = (shape: ShapeDrawing, rect: RenderRect): string => {
+  const a = toScreen(shape.start, rect);
+  const b = toScreen(shape.end, rect);
+  const angle = Math.atan2(b.y - a.y, b.x - a.x);
+  const head = Math.max(10, shape.width * 3);
+  const left = { x: b.x - head * Math.cos(angle - Math.PI / 6), y: b.y - head * Math.sin(angle - Math.PI / 6) };
+  const right = { x: b.x - head * Math.cos(angle + Math.PI / 6), y: b.y - head * Math.sin(angle + Math.PI / 6) };
+  return `<path d="M${pt(a)}L${pt(b)}" ${strokeAttrs(shape.color, shape.width)}/>`
+    + `<path d="M${pt(b)}L${pt(left)}L${pt(right)}Z" fill="${escapeXml(shape.color)}"/>`;
+};
+
+const ellipseSvg = (shape: ShapeDrawing, rect: RenderRect): string => {
+  const a = toScreen(shape.start, rect);
+  const b = toScreen(shape.end, rect);
+  return `<ellipse cx="${num((a.x + b.x) / 2)}" cy="${num((a.y + b.y) / 2)}" rx="${num(Math.abs(b.x - a.x) / 2)}" ry="${num(Math.abs(b.y - a.y) / 2)}" ${strokeAttrs(shape.color, shape.width)}/>`;
+};
+
+const rectSvg = (shape: ShapeDrawing, rect: RenderRect): string => {
+  const a = toScreen(shape.start, rect);
+  const b = toScreen(shape.end, rect);
+  return `<rect x="${num(Math.min(a.x, b.x))}" y="${num(Math.min(a.y, b.y))}" width="${num(Math.abs(b.x - a.x))}" height="${num(Math.abs(b.y - a.y))}" ${strokeAttrs(shape.color, shape.width)}/>`;
+};
+
+// paint-order puts the dark outline behind the fill, like strokeText then fillText
+const textSvg = (label: TextLabel, rect: RenderRect): string => {
+  const p = toScreen(label, rect);
+  const fontPx = Math.max(8, label.size * rect.h);
+  return `<text x="${num(p.x)}" y="${num(p.y)}" fill="${escapeXml(label.color)}" font-family="sans-serif" font-weight="bold" font-size="${num(fontPx)}"`
+    + ` stroke="rgba(0, 0, 0, 0.8)" stroke-width="${num(Math.max(2, fontPx / 6))}" stroke-linejoin="round" paint-order="stroke">${escapeXml(label.text)}</text>`;
+};
+
+const drawingSvg = (drawing: Drawing, rect: RenderRect): string => {
+  let body: string;
+  switch (drawing.kind) {
+    case 'path': body = pathSvg(drawing, rect); break;
+    case 'arrow': body = arrowSvg(drawing, rect); break;
+    case 'ellipse': body = ellipseSvg(drawing, rect); break;
+    case 'rect': body = rectSvg(drawing, rect); break;
+    case 'text': body = textSvg(drawing, rect); break;
+  }
+  const opacity = drawing.kind === 'text' ? 1 : drawing.opacity ?? 1;
+  return opacity < 1 ? `<g opacity="${opacity}">${body}</g>` : body;
+};
+
+// The frame is embedded as a PNG data URL so the file stands alone
+const frameDataUrl = (frame: CanvasImageSource, crop: CropRegion): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width));
+  canvas.height = Math.max(1, Math.round(crop.height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(frame, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Same transform as orientContext: the unrotated map image is centred, flipped, then rotated into place
+const frameTransform = (size: { w: number; h: number }, orientation: MapOrientation) => {
+  const w = isQuarterTurn(orientation) ? size.h : size.w;
+  const h = isQuarterTurn(orientation) ? size.w : size.h;
+  const transform = `translate(${num(size.w / 2)} ${num(size.h / 2)}) rotate(${orientation.rotation})`
+    + ` scale(${orientation.flipX ? -1 : 1} ${orientation.flipY ? -1 : 1}) translate(${num(-w / 2)} ${num(-h / 2)})`;
+  return { w, h, transform };
+};
+
+export const renderMapSvg = ({ frame, crop, layers, size, orientation }: MapExportOptions): string => {
+  const rect: RenderRect = { x: 0, y: 0, ...size };
+  const now = Date.now();
+  const parts: string[] = [`<rect width="${num(size.w)}" height="${num(size.h)}" fill="#111"/>`];
+
+  const href = frame ? frameDataUrl(frame, crop) : '';
+  if (href) {
+    const { w, h, transform } = frameTransform(size, orientation);
+    parts.push(`<image href="${href}" width="${num(w)}" height="${num(h)}" transform="${transform}" preserveAspectRatio="none"/>`);
+  }
+
+  layers.forEach(layer => {
+    const items: string[] = [];
+    layer.drawings.forEach(drawing => {
+      if (!isExpired(drawing, now)) items.push(drawingSvg(orientDrawing(drawing, orientation), rect));
+    });
+    layer.markers.forEach(marker => {
+      const definition = MARKER_TYPES[marker.type];
+      if (!definition || isExpired(marker, now)) return;
+      const p = toScreen(toView(marker, orientation), rect);
+      items.push(`<g transform="translate(${pt(p)})">${definition.svg}</g>`);
+    });
+    if (items.length) parts.push(`<g id="${escapeXml(layer.id)}">${items.join('')}</g>`);
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${num(size.w)}" height="${num(size.h)}" viewBox="0 0 ${num(size.w)} ${num(size.h)}">`
+    + parts.join('')
+    + '</svg>';
+};
@@ -0,0 +1,42 @@
+import { MapOrientation } from '../types';
+import { DEFAULT_ORIENTATION, isQuarterTurn } from './geometry';
+
+const ORIENTATION_KEY = 'deadlock-map-orientation';
+
+// Rotation and flips apply to the view only (see MapOrientation), so changing them never touches stored plans
+
+export const rotateClockwise = (o: MapOrientation): MapOrientation => ({
+  ...o,
+  rotation: ((o.rotation + 90) % 360) as MapOrientation['rotation']
+});
+
+// Mirror along the screen axis, whatever the current rotation: after a quarter turn the map's own
+// horizontal axis runs vertically, so the other flip has to change
+export const flipHorizontal = (o: MapOrientation): MapOrientation => {
+  return isQuarterTurn(o) ? { ...o, flipY: !o.flipY } : { ...o, flipX: !o.flipX };
+};
+
+export const flipVertical = (o: MapOrientation): MapOrientation => {
+  return isQuarterTurn(o) ? { ...o, flipX: !o.flipX } : { ...o, flipY: !o.flipY };
+};
+
+// Whether the displayed map is mirrored along the screen axis, matching the flip actions above
+export const isFlippedHorizontally = (o: MapOrientation) => isQuarterTurn(o) ? o.flipY : o.flipX;
+
+export const isFlippedVertically = (o: MapOrientation) => isQuarterTurn(o) ? o.flipX : o.flipY;
+
+export const loadOrientation = (): MapOrientation => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ORIENTATION_KEY) || 'null');
+    if (stored && [0, 90, 180, 270].includes(stored.rotation)) {
+      return { rotation: stored.rotation, flipX: !!stored.flipX, flipY: !!stored.flipY };
+    }
+  } catch {
+    // Unreadable storage falls through to the default
+  }
+  return DEFAULT_ORIENTATION;
+};
+
+export const storeOrientation = (orientation: MapOrientation) => {
+  localStorage.setItem(ORIENTATION_KEY, JSON.stringify(orientation));
+};
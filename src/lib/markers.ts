@@ -0,0 +1,111 @@
+import { MarkerType } from '../types';
+
+export interface MarkerDefinition {
+  label: string;
+  color: string;
+  // Draws the icon centred on the origin, roughly 20px across
+  draw: (ctx: CanvasRenderingContext2D) => void;
+  // The same icon as SVG markup centred on the origin, used for vector export
+  svg: string;
+}
+
+// Single registry for every marker kind: the canvas render loop and the sidebar palette both read from here.
+// To add a marker type, extend MarkerType in types.ts and add an entry below.
+export const MARKER_TYPES: Record<MarkerType, MarkerDefinition> = {
+  danger: {
+    label: 'Danger',
+    color: 'rgba(239, 68, 68, 0.9)', // Red
+    draw: ctx => {
+      ctx.fillStyle = MARKER_TYPES.danger.color;
+      ctx.beginPath();
+      ctx.moveTo(0, -10);
+      ctx.lineTo(10, 10);
+      ctx.lineTo(-10, 10);
+      ctx.fill();
+      ctx.fillStyle = 'white';
+      ctx.font = 'bold 12px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('!', 0, 8);
+    },
+    svg: '<path d="M0 -10L10 10L-10 10Z" fill="rgba(239, 68, 68, 0.9)"/>'
+      + '<text x="0" y="8" fill="white" font-family="sans-serif" font-weight="bold" font-size="12" text-anchor="middle">!</text>'
+  },
+  move: {
+    label: 'Move',
+    color: 'rgba(34, 197, 94, 0.9)', // Green
+    draw: ctx => {
+      ctx.fillStyle = MARKER_TYPES.move.color;
+      ctx.beginPath();
+      ctx.arc(0, 0, 8, 0, Math.PI * 2);
+      ctx.fill();
+    },
+    svg: '<circle r="8" fill="rgba(34, 197, 94, 0.9)"/>'
+  },
+  ward: {
+    label: 'Ward',
+    color: 'rgba(234, 179, 8, 0.9)', // Yellow
+    draw: ctx => {
+      ctx.fillStyle = MARKER_TYPES.ward.color;
+      ctx.fillRect(-6, -6, 12, 12);
+    },
+    svg: '<rect x="-6" y="-6" width="12" height="12" fill="rgba(234, 179, 8, 0.9)"/>'
+  },
+  objective: {
+    label: 'Objective',
+    color: 'rgba(168, 85, 247, 0.9)', // Purple
+    draw: ctx => {
+      // Diamond with a white star point in the middle
+      ctx.fillStyle = MARKER_TYPES.objective.color;
+      ctx.beginPath();
+      ctx.moveTo(0, -10);
+      ctx.lineTo(10, 0);
+      ctx.lineTo(0, 10);
+      ctx.lineTo(-10, 0);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillStyle = 'white';
+      ctx.beginPath();
+      ctx.arc(0, 0, 3, 0, Math.PI * 2);
+      ctx.fill();
+    },
+    svg: '<path d="M0 -10L10 0L0 10L-10 0Z" fill="rgba(168, 85, 247, 0.9)"/><circle r="3" fill="white"/>'
+  },
+  retreat: {
+    label: 'Retreat',
+    color: 'rgba(59, 130, 246, 0.9)', // Blue
+    draw: ctx => {
+      // Downward chevron
+      ctx.strokeStyle = MARKER_TYPES.retreat.color;
+      ctx.lineWidth = 4;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(-8, -6);
+      ctx.lineTo(0, 4);
+      ctx.lineTo(8, -6);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(-8, 2);
+      ctx.lineTo(0, 12);
+      ctx.lineTo(8, 2);
+      ctx.stroke();
+    },
+    svg: '<path d="M-8 -6L0 4L8 -6M-8 2L0 12L8 2" fill="none" stroke="rgba(59, 130, 246, 0.9)" stroke-width="4" stroke-linecap="round" stroke-linejoin="round"/>'
+  },
+  smoke: {
+    label: 'Smoke',
+    color: 'rgba(163, 163, 163, 0.75)', // Grey
+    draw: ctx => {
+      ctx.fillStyle = MARKER_TYPES.smoke.color;
+      ctx.beginPath();
+      ctx.arc(-4, 2, 6, 0, Math.PI * 2);
+      ctx.arc(4, 2, 6, 0, Math.PI * 2);
+      ctx.arc(0, -4, 6, 0, Math.PI * 2);
+      ctx.fill();
+    },
+    // Group opacity so the overlapping puffs blend as one shape, like the single canvas path
+    svg: '<g fill="rgb(163, 163, 163)" opacity="0.75"><circle cx="-4" cy="2" r="6"/><circle cx="4" cy="2" r="6"/><circle cx="0" cy="-4" r="6"/></g>'
+  }
+};
+
+export const MARKER_TYPE_LIST = Object.keys(MARKER_TYPES) as MarkerType[];
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_CONFIDENCE, findMinimap } from './minimapLocator';
+
+const WIDTH = 480;
+const HEIGHT = 270;
+
+// Plain dark frame, optionally with a bright 2px square outline
+const frame = (outline?: { x: number; y: number; size: number }) => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = 20;
+    data[i + 3] = 255;
+  }
+  if (outline) {
+    const { x, y, size } = outline;
+    for (let py = y; py < y + size; py++) {
+      for (let px = x; px < x + size; px++) {
+        const onEdge = px - x < 2 || py - y < 2 || x + size - px <= 2 || y + size - py <= 2;
+        if (onEdge) data.fill(230, (py * WIDTH + px) * 4, (py * WIDTH + px) * 4 + 3);
+      }
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT, colorSpace: 'srgb' } as ImageData;
+};
+
+describe('findMinimap', () => {
+  it('returns no guess for a blank frame', () => {
+    expect(findMinimap(frame())).toBeNull();
+  });
+
+  it('finds a framed square in the corner', () => {
+    const guess = findMinimap(frame({ x: 10, y: 170, size: 80 }));
+
+    expect(guess).not.toBeNull();
+    expect(guess!.confidence).toBeGreaterThanOrEqual(MIN_CONFIDENCE);
+    expect(guess!.shape).toBe('square');
+    expect(Math.abs(guess!.crop.x - 10)).toBeLessThanOrEqual(2);
+    expect(Math.abs(guess!.crop.y - 170)).toBeLessThanOrEqual(2);
+    expect(Math.abs(guess!.crop.width - 80)).toBeLessThanOrEqual(4);
+  });
+});
@@ -0,0 +1,228 @@
+import { CropRegion, FrameSize } from '../types';
+
+// Automatic minimap locator
+// =========================
+// Finds the minimap in a captured frame without any network calls. The frame is downscaled and turned
+// into an edge map; every square or circle in a range of sizes is scored by how strongly its outline
+// follows edges compared to the rest of the image. Minimaps have a crisp frame, so the best outline wins.
+// Corners of the screen get a small bonus because that is where games put the minimap.
+
+export interface MinimapGuess {
+  crop: CropRegion; // in frame pixels
+  shape: 'square' | 'circle';
+  confidence: number; // 0..1
+}
+
+// Analysis width in pixels; big enough to see the minimap frame, small enough to stay fast
+const ANALYSIS_WIDTH = 480;
+// Candidate sizes as fractions of the frame height
+const MIN_SIZE = 0.12;
+const MAX_SIZE = 0.4;
+// Coarse search step in analysis pixels; the best candidate is then refined at 1px
+const COARSE_STEP = 3;
+const CIRCLE_SAMPLES = 64;
+const CORNER_BONUS = 0.25;
+// Outline-to-background edge ratio that counts as a sure match, and the ratio that counts as no match
+const STRONG_RATIO = 4;
+const WEAK_RATIO = 1.5;
+// Below this, the guess is not worth showing
+export const MIN_CONFIDENCE = 0.3;
+
+interface Candidate {
+  x: number;
+  y: number;
+  size: number;
+  shape: MinimapGuess['shape'];
+  score: number;
+}
+
+// Edge map plus prefix sums for O(1) line and box sums
+interface EdgeImage {
+  w: number;
+  h: number;
+  edges: Float32Array;
+  rows: Float32Array; // rows[y * (w + 1) + x] = sum of edges[y][0..x)
+  cols: Float32Array; // cols[x * (h + 1) + y] = sum of edges[0..y)[x]
+  box: Float64Array; // 2D integral image, (w + 1) * (h + 1)
+  mean: number;
+}
+
+// Sobel gradient magnitude of the luminance, softened with a 3x3 box blur so 1px outlines survive downscaling jitter
+const buildEdgeImage = ({ data, width: w, height: h }: ImageData): EdgeImage => {
+  const lum = new Float32Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    lum[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const sobel = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const gx = lum[i - w + 1] + 2 * lum[i + 1] + lum[i + w + 1] - lum[i - w - 1] - 2 * lum[i - 1] - lum[i + w - 1];
+      const gy = lum[i + w - 1] + 2 * lum[i + w] + lum[i + w + 1] - lum[i - w - 1] - 2 * lum[i - w] - lum[i - w + 1];
+      sobel[i] = Math.hypot(gx, gy);
+    }
+  }
+
+  const edges = new Float32Array(w * h);
+  let total = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) sum += sobel[(y + dy) * w + x + dx];
+      }
+      edges[y * w + x] = sum / 9;
+      total += sum / 9;
+    }
+  }
+
+  const rows = new Float32Array((w + 1) * h);
+  const cols = new Float32Array((h + 1) * w);
+  const box = new Float64Array((w + 1) * (h + 1));
+  for (let y = 0; y < h; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < w; x++) {
+      const e = edges[y * w + x];
+      rows[y * (w + 1) + x + 1] = rows[y * (w + 1) + x] + e;
+      cols[x * (h + 1) + y + 1] = cols[x * (h + 1) + y] + e;
+      rowSum += e;
+      box[(y + 1) * (w + 1) + x + 1] = box[y * (w + 1) + x + 1] + rowSum;
+    }
+  }
+
+  return { w, h, edges, rows, cols, box, mean: total / (w * h) || 1e-6 };
+};
+
+const rowSum = (img: EdgeImage, y: number, x0: number, x1: number) => img.rows[y * (img.w + 1) + x1] - img.rows[y * (img.w + 1) + x0];
+
+const colSum = (img: EdgeImage, x: number, y0: number, y1: number) => img.cols[x * (img.h + 1) + y1] - img.cols[x * (img.h + 1) + y0];
+
+const boxMean = (img: EdgeImage, x0: number, y0: number, x1: number, y1: number) => {
+  if (x1 <= x0 || y1 <= y0) return 0;
+  const W = img.w + 1;
+  const sum = img.box[y1 * W + x1] - img.box[y0 * W + x1] - img.box[y1 * W + x0] + img.box[y0 * W + x0];
+  return sum / ((x1 - x0) * (y1 - y0));
+};
+
+const squareOutline = (img: EdgeImage, x: number, y: number, s: number) => {
+  const sum = rowSum(img, y, x, x + s) + rowSum(img, y + s - 1, x, x + s)
+    + colSum(img, x, y, y + s) + colSum(img, x + s - 1, y, y + s);
+  return sum / (4 * s);
+};
+
+const circleOutline = (img: EdgeImage, x: number, y: number, s: number) => {
+  const r = s / 2 - 1;
+  const cx = x + s / 2;
+  const cy = y + s / 2;
+  let sum = 0;
+  for (let i = 0; i < CIRCLE_SAMPLES; i++) {
+    const a = (i / CIRCLE_SAMPLES) * Math.PI * 2;
+    sum += img.edges[Math.round(cy + Math.sin(a) * r) * img.w + Math.round(cx + Math.cos(a) * r)];
+  }
+  return sum / CIRCLE_SAMPLES;
+};
+
+// Outline strength relative to the background, with the corner bonus applied
+const scoreCandidate = (img: EdgeImage, x: number, y: number, s: number): Candidate => {
+  const inset = Math.max(3, Math.round(s * 0.08));
+  const interior = boxMean(img, x + inset, y + inset, x + s - inset, y + s - inset);
+  const background = (img.mean + interior) / 2 || 1e-6;
+
+  const square = squareOutline(img, x, y, s);
+  const circle = circleOutline(img, x, y, s);
+  const shape = circle > square ? 'circle' : 'square';
+
+  // Distance from the nearest frame corner, 0 at the corner and 1 at the centre
+  const dx = Math.min(x, img.w - (x + s)) / (img.w / 2);
+  const dy = Math.min(y, img.h - (y + s)) / (img.h / 2);
+  const cornerness = 1 - Math.min(1, Math.hypot(dx, dy));
+
+  return { x, y, size: s, shape, score: (Math.max(square, circle) / background) * (1 + CORNER_BONUS * cornerness) };
+};
+
+const overlaps = (a: Candidate, b: Candidate) => {
+  const ix = Math.max(0, Math.min(a.x + a.size, b.x + b.size) - Math.max(a.x, b.x));
+  const iy = Math.max(0, Math.min(a.y + a.size, b.y + b.size) - Math.max(a.y, b.y));
+  return ix * iy > 0.3 * Math.min(a.size, b.size) ** 2;
+};
+
+// Searches an analysis-sized image; the returned crop is in that image's pixels
+export const findMinimap = (image: ImageData): MinimapGuess | null => {
+  const img = buildEdgeImage(image);
+  const minSize = Math.max(8, Math.round(img.h * MIN_SIZE));
+  const maxSize = Math.min(Math.round(img.h * MAX_SIZE), Math.min(img.w, img.h) - 3);
+  if (maxSize < minSize) return null;
+
+  let best: Candidate | null = null;
+  const top: Candidate[] = [];
+  for (let s = minSize; s <= maxSize; s += COARSE_STEP) {
+    for (let y = 1; y + s < img.h - 1; y += COARSE_STEP) {
+      for (let x = 1; x + s < img.w - 1; x += COARSE_STEP) {
+        const c = scoreCandidate(img, x, y, s);
+        if (!best || c.score > best.score) best = c;
+        // Keep a few strong, distinct candidates to judge ambiguity
+        if (top.length < 8 || c.score > top[top.length - 1].score) {
+          const clash = top.findIndex(t => overlaps(t, c));
+          if (clash === -1) top.push(c);
+          else if (top[clash].score < c.score) top[clash] = c;
+          top.sort((a, b) => b.score - a.score);
+          if (top.length > 8) top.pop();
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  // Refine position and size around the coarse winner
+  const coarse: Candidate = best;
+  for (let s = coarse.size - COARSE_STEP; s <= coarse.size + COARSE_STEP; s++) {
+    for (let y = coarse.y - COARSE_STEP; y <= coarse.y + COARSE_STEP; y++) {
+      for (let x = coarse.x - COARSE_STEP; x <= coarse.x + COARSE_STEP; x++) {
+        if (s < minSize || x < 1 || y < 1 || x + s >= img.w - 1 || y + s >= img.h - 1) continue;
+        const c = scoreCandidate(img, x, y, s);
+        if (c.score > best.score) best = c;
+      }
+    }
+  }
+
+  // A blank or uniform frame has no outline anywhere
+  if (best.score <= 0) return null;
+
+  // Strength of the outline, reduced when a different region scores almost as well
+  const strength = Math.max(0, Math.min(1, (best.score - WEAK_RATIO) / (STRONG_RATIO - WEAK_RATIO)));
+  const runnerUp = top.find(t => !overlaps(t, best!));
+  const ambiguity = runnerUp ? Math.max(0, Math.min(1, (runnerUp.score / best.score - 0.85) / 0.15)) : 0;
+
+  return {
+    crop: { x: best.x, y: best.y, width: best.size, height: best.size },
+    shape: best.shape,
+    confidence: strength * (1 - ambiguity)
+  };
+};
+
+// Grabs the current frame at analysis size and maps the result back to frame pixels.
+// Returns null when the frame could not be read (e.g. the video has no data yet).
+export const locateMinimap = (source: CanvasImageSource, frame: FrameSize): MinimapGuess | null => {
+  const scale = ANALYSIS_WIDTH / frame.w;
+  const canvas = document.createElement('canvas');
+  canvas.width = ANALYSIS_WIDTH;
+  canvas.height = Math.max(1, Math.round(frame.h * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const found = findMinimap(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  if (!found) return null;
+
+  const { crop } = found;
+  return {
+    ...found,
+    crop: {
+      x: Math.round(crop.x / scale),
+      y: Math.round(crop.y / scale),
+      width: Math.round(crop.width / scale),
+      height: Math.round(crop.height / scale)
+    }
+  };
+};
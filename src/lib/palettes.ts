@@ -0,0 +1,17 @@
+import { CvdMode } from '../types';
+
+// Annotation colours in the sidebar: red, green, yellow, blue, white
+export const STANDARD_PALETTE = ['#ef4444', '#22c55e', '#eab308', '#3b82f6', '#ffffff'];
+
+// Okabe-Ito replacements for the same slots, told apart with any of the common colour-vision deficiencies:
+// vermillion, bluish green, yellow, blue, white
+export const CVD_SAFE_PALETTE = ['#d55e00', '#009e73', '#f0e442', '#0072b2', '#ffffff'];
+
+export const annotationPalette = (cvd: CvdMode) => cvd === 'none' ? STANDARD_PALETTE : CVD_SAFE_PALETTE;
+
+// The colour in the same slot of the other palette, so switching palettes keeps the chosen role.
+// Colours in neither palette are kept.
+export const matchPaletteColor = (color: string, palette: string[]) => {
+  const slot = Math.max(STANDARD_PALETTE.indexOf(color), CVD_SAFE_PALETTE.indexOf(color));
+  return slot === -1 ? color : palette[slot];
+};
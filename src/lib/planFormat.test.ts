@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { PLAN_FORMAT, PLAN_FORMAT_VERSION, PlanFile, PlanFormatError, parsePlan, parseSharedFile, serializePlan, serializePlaybook } from './planFormat';
+import { AnnotationSet } from '../types';
+
+const ANNOTATIONS: AnnotationSet = {
+  layers: [{
+    id: 'plan',
+    name: 'Plan',
+    drawings: [
+      { kind: 'path', id: 'd1', color: '#ff0000', width: 4, points: [{ x: 0.1, y: 0.2 }, { x: 0.3, y: 0.4 }] },
+      { kind: 'arrow', id: 'd2', color: '#00ff00', width: 3, start: { x: 0.5, y: 0.5 }, end: { x: 0.9, y: 0.1 } },
+      { kind: 'text', id: 'd3', color: '#ffffff', x: 0.5, y: 0.5, text: 'Push', size: 0.04 }
+    ],
+    markers: [{ id: 'm1', x: 0.25, y: 0.75, type: 'danger' }]
+  }]
+};
+
+const planText = (doc: Record<string, unknown>) => JSON.stringify({ format: PLAN_FORMAT, version: PLAN_FORMAT_VERSION, ...doc });
+// A plan with a single layer built from the given fields
+const layerText = (layer: Record<string, unknown>) => planText({ annotations: { layers: [{ id: 'plan', name: 'Plan', drawings: [], markers: [], ...layer }] } });
+
+const expectFormatError = (text: string, message: string) => {
+  expect(() => parsePlan(text)).toThrow(PlanFormatError);
+  expect(() => parsePlan(text)).toThrow(message);
+};
+
+describe('parsePlan', () => {
+  it('reads back what serializePlan writes', () => {
+    const crop = { x: 1620, y: 780, width: 300, height: 300, frameWidth: 1920, frameHeight: 1080 };
+    const plan: PlanFile = parsePlan(serializePlan('Mid collapse', ANNOTATIONS, crop));
+
+    expect(plan.version).toBe(PLAN_FORMAT_VERSION);
+    expect(plan.name).toBe('Mid collapse');
+    expect(plan.crop).toEqual(crop);
+    expect(plan.annotations).toEqual(ANNOTATIONS);
+  });
+
+  it('fills in a name when the file has none', () => {
+    expect(parsePlan(planText({ annotations: ANNOTATIONS })).name).toBe('Imported plan');
+  });
+});
+
+describe('plan validation errors', () => {
+  it('rejects text that is not JSON', () => {
+    expectFormatError('{ not json', 'File is not valid JSON');
+  });
+
+  it('rejects files of another format', () => {
+    expectFormatError(JSON.stringify({ format: 'something-else', version: 1 }), 'format must be "deadlock-map-plan"');
+  });
+
+  it('rejects versions newer than the app', () => {
+    expectFormatError(planText({ version: PLAN_FORMAT_VERSION + 1, annotations: ANNOTATIONS }), 'is newer than this app supports');
+  });
+
+  it('rejects unknown old versions', () => {
+    expectFormatError(planText({ version: 0, annotations: ANNOTATIONS }), 'version 0 is not a known plan format version');
+  });
+
+  it('names the field of an unknown drawing kind', () => {
+    const layers = [{ ...ANNOTATIONS.layers[0], drawings: [{ kind: 'star', id: 'd1', color: '#fff' }] }];
+    expectFormatError(planText({ annotations: { layers } }), 'annotations.layers[0].drawings[0].kind "star" is not one of');
+  });
+
+  it('names the field of an unknown marker type', () => {
+    const layers = [{ ...ANNOTATIONS.layers[0], markers: [{ id: 'm1', x: 0.5, y: 0.5, type: 'gank' }] }];
+    expectFormatError(planText({ annotations: { layers } }), 'annotations.layers[0].markers[0].type "gank" is not one of');
+  });
+
+  it('requires one pressure value per point', () => {
+    const drawings = [{ kind: 'path', id: 'd1', color: '#fff', width: 2, points: [{ x: 0, y: 0 }, { x: 1, y: 1 }], pressure: [0.5] }];
+    expectFormatError(layerText({ drawings }), 'pressure must have one entry per point');
+  });
+
+  it('requires every drawing to have an id', () => {
+    const drawings = [{ kind: 'rect', color: '#fff', width: 2, start: { x: 0, y: 0 }, end: { x: 1, y: 1 } }];
+    expectFormatError(layerText({ drawings }), 'annotations.layers[0].drawings[0].id must be a string');
+  });
+
+  it('range-checks widths, text sizes, opacity and pressure', () => {
+    const rect = { kind: 'rect', id: 'd1', color: '#fff', width: 2, start: { x: 0, y: 0 }, end: { x: 1, y: 1 } };
+    const path = { kind: 'path', id: 'd1', color: '#fff', width: 2, points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] };
+
+    expectFormatError(layerText({ drawings: [{ ...rect, width: 500 }] }), 'drawings[0].width is 500, outside the allowed range');
+    expectFormatError(layerText({ drawings: [{ ...rect, width: -1 }] }), 'drawings[0].width is -1, outside the allowed range');
+    expectFormatError(layerText({ drawings: [{ ...rect, opacity: 1.5 }] }), 'drawings[0].opacity is 1.5, outside the allowed range 0..1');
+    expectFormatError(layerText({ drawings: [{ ...path, pressure: [0.5, 2] }] }), 'drawings[0].pressure[1] is 2, outside the allowed range 0..1');
+    expectFormatError(layerText({ drawings: [{ kind: 'text', id: 'd1', color: '#fff', x: 0.5, y: 0.5, text: 'Push', size: 40 }] }), 'drawings[0].size is 40, outside the allowed range');
+  });
+
+  it('rejects duplicate layer ids', () => {
+    const layer = { id: 'plan', name: 'Plan', drawings: [], markers: [] };
+    expectFormatError(planText({ annotations: { layers: [layer, layer] } }), 'annotations.layers[1].id "plan" is already used by annotations.layers[0]');
+  });
+
+  it('rejects drawing ids used twice, also across layers', () => {
+    const drawing = ANNOTATIONS.layers[0].drawings[0];
+    const layers = [{ ...ANNOTATIONS.layers[0], markers: [] }, { id: 'enemy', name: 'Enemy', drawings: [drawing], markers: [] }];
+    expectFormatError(planText({ annotations: { layers } }), 'annotations.layers[1].drawings[0].id "d1" is already used by annotations.layers[0].drawings[0]');
+  });
+
+  it('rejects duplicate marker ids', () => {
+    const marker = { id: 'm1', x: 0.5, y: 0.5, type: 'danger' };
+    expectFormatError(layerText({ markers: [marker, marker] }), 'annotations.layers[0].markers[1].id "m1" is already used by annotations.layers[0].markers[0]');
+  });
+
+  it('requires at least one layer', () => {
+    expectFormatError(planText({ annotations: { layers: [] } }), 'annotations.layers must contain at least one layer');
+  });
+});
+
+describe('parseSharedFile', () => {
+  it('tells plans and playbooks apart', () => {
+    const steps = [{ id: 'step-1', label: '8:00', note: 'Collapse mid', annotations: ANNOTATIONS }];
+    const playbook = parseSharedFile(serializePlaybook('Urn rotation', steps));
+    const plan = parseSharedFile(serializePlan('Mid collapse', ANNOTATIONS));
+
+    expect(playbook.format).toBe('deadlock-map-playbook');
+    expect('steps' in playbook && playbook.steps).toEqual(steps);
+    expect(plan.format).toBe(PLAN_FORMAT);
+  });
+
+  it('numbers playbook steps that have no id', () => {
+    const text = JSON.stringify({ format: 'deadlock-map-playbook', version: 1, steps: [{ label: 'Start', annotations: ANNOTATIONS }] });
+    const file = parseSharedFile(text);
+
+    expect('steps' in file && file.steps[0]).toMatchObject({ id: 'step-1', note: '' });
+  });
+
+  it('rejects duplicate step ids', () => {
+    const step = { id: 'step-1', label: 'Start', annotations: ANNOTATIONS };
+    const text = JSON.stringify({ format: 'deadlock-map-playbook', version: 1, steps: [step, step] });
+
+    expect(() => parseSharedFile(text)).toThrow('steps[1].id "step-1" is already used by steps[0]');
+  });
+});
@@ -0,0 +1,359 @@
+import { AnnotationSet, CropRegion, Drawing, Layer, Marker, MarkerType, PlaybookStep, Point } from '../types';
+import { MARKER_TYPE_LIST } from './markers';
+
+// Shareable plan file format
+// ==========================
+// A plan file is UTF-8 JSON:
+//
+//   {
+//     "format": "deadlock-map-plan",
+//     "version": 1,
+//     "name": "Mid collapse",
+//     "exportedAt": "2026-01-01T12:00:00.000Z",
+//     "crop": { "x": 1620, "y": 780, "width": 300, "height": 300, "frameWidth": 1920, "frameHeight": 1080 },
+//     "annotations": { "layers": [ { "id": "plan", "name": "Plan", "drawings": [...], "markers": [...] } ] }
+//   }
+//
+// All annotation coordinates are normalized to the crop region (0..1 across the mirrored map),
+// so a plan lines up regardless of the capture resolution. `crop` is informational and optional.
+//
+// Drawings are tagged by "kind":
+//   path     { id, points: [{x, y}], color, width, opacity?, pressure?: number[] }
+//   arrow | ellipse | rect  { id, start: {x, y}, end: {x, y}, color, width, opacity? }
+//   text     { id, x, y, text, color, size }   (size is a fraction of the map height)
+// Markers: { id, x, y, type } with type one of MARKER_TYPES. Any annotation may carry expiresAt (epoch ms).
+// width is in screen pixels; opacity and pressure run from 0 to 1. Layer ids are unique within the file,
+// drawing and marker ids within their annotation set.
+//
+// Version history:
+//   1  initial version
+export const PLAN_FORMAT = 'deadlock-map-plan';
+export const PLAN_FORMAT_VERSION = 1;
+
+// Playbook files share the header and annotation format, with one annotation set per step:
+//
+//   { "format": "deadlock-map-playbook", "version": 1, "name": "Urn rotation", "exportedAt": "...", "crop": {...},
+//     "steps": [ { "id": "step-1", "label": "8:00", "note": "Collapse mid", "annotations": { "layers": [...] } } ] }
+//
+// Step ids are unique within the file; a step without one is numbered by its position.
+//
+// Version history:
+//   1  initial version (annotations as in plan version 1)
+export const PLAYBOOK_FORMAT = 'deadlock-map-playbook';
+export const PLAYBOOK_FORMAT_VERSION = 1;
+
+export interface PlanCrop extends CropRegion {
+  frameWidth?: number;
+  frameHeight?: number;
+}
+
+export interface PlanFile {
+  format: typeof PLAN_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  crop?: PlanCrop;
+  annotations: AnnotationSet;
+}
+
+export interface PlaybookFile {
+  format: typeof PLAYBOOK_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  crop?: PlanCrop;
+  steps: PlaybookStep[];
+}
+
+// Thrown for any file that can't be read as a plan. Messages name the offending field.
+export class PlanFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanFormatError';
+  }
+}
+
+// Normalized coordinates may sit slightly off the map (strokes drawn past the edge),
+// but anything far outside 0..1 is almost certainly pixel coordinates.
+const COORD_MIN = -1;
+const COORD_MAX = 2;
+
+// Widest stroke accepted; the width picker stays well below this
+const MAX_STROKE_WIDTH = 64;
+// Largest text size accepted, as a fraction of the map height
+const MAX_TEXT_SIZE = 0.5;
+
+const DRAWING_KINDS = ['path', 'arrow', 'ellipse', 'rect', 'text'];
+
+// --- Validation helpers. Each takes the JSON path used in error messages. ---
+
+const fail = (path: string, problem: string): never => {
+  throw new PlanFormatError(`${path} ${problem}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const expectObject = (value: unknown, path: string): Record<string, unknown> => {
+  return isObject(value) ? value : fail(path, 'must be an object');
+};
+
+const expectArray = (value: unknown, path: string): unknown[] => {
+  return Array.isArray(value) ? value : fail(path, 'must be an array');
+};
+
+const expectString = (value: unknown, path: string): string => {
+  return typeof value === 'string' ? value : fail(path, 'must be a string');
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'must be a finite number');
+};
+
+const optionalNumber = (value: unknown, path: string): number | undefined => {
+  return value === undefined ? undefined : expectNumber(value, path);
+};
+
+const expectInRange = (value: unknown, path: string, min: number, max: number): number => {
+  const n = expectNumber(value, path);
+  if (n < min || n > max) fail(path, `is ${n}, outside the allowed range ${min}..${max}`);
+  return n;
+};
+
+const optionalInRange = (value: unknown, path: string, min: number, max: number): number | undefined => {
+  return value === undefined ? undefined : expectInRange(value, path, min, max);
+};
+
+const expectCoord = (value: unknown, path: string): number => {
+  const n = expectNumber(value, path);
+  if (n < COORD_MIN || n > COORD_MAX) {
+    fail(path, `is ${n}, outside the normalized map range (expected roughly 0..1)`);
+  }
+  return n;
+};
+
+const expectPoint = (value: unknown, path: string): Point => {
+  const obj = expectObject(value, path);
+  return { x: expectCoord(obj.x, `${path}.x`), y: expectCoord(obj.y, `${path}.y`) };
+};
+
+const validateDrawing = (value: unknown, path: string): Drawing => {
+  const obj = expectObject(value, path);
+  const kind = expectString(obj.kind, `${path}.kind`);
+  const color = expectString(obj.color, `${path}.color`);
+  const expiresAt = optionalNumber(obj.expiresAt, `${path}.expiresAt`);
+  const opacity = optionalInRange(obj.opacity, `${path}.opacity`, 0, 1);
+  const base = { id: expectString(obj.id, `${path}.id`), color, ...(expiresAt !== undefined && { expiresAt }) };
+
+  switch (kind) {
+    case 'path': {
+      const points = expectArray(obj.points, `${path}.points`).map((p, i) => expectPoint(p, `${path}.points[${i}]`));
+      const pressure = obj.pressure === undefined
+        ? undefined
+        : expectArray(obj.pressure, `${path}.pressure`).map((p, i) => expectInRange(p, `${path}.pressure[${i}]`, 0, 1));
+      if (pressure && pressure.length !== points.length) fail(`${path}.pressure`, 'must have one entry per point');
+      return {
+        kind,
+        ...base,
+        points,
+        width: expectInRange(obj.width, `${path}.width`, 0, MAX_STROKE_WIDTH),
+        ...(opacity !== undefined && { opacity }),
+        ...(pressure && { pressure })
+      };
+    }
+    case 'arrow':
+    case 'ellipse':
+    case 'rect':
+      return {
+        kind,
+        ...base,
+        start: expectPoint(obj.start, `${path}.start`),
+        end: expectPoint(obj.end, `${path}.end`),
+        width: expectInRange(obj.width, `${path}.width`, 0, MAX_STROKE_WIDTH),
+        ...(opacity !== undefined && { opacity })
+      };
+    case 'text':
+      return {
+        kind,
+        ...base,
+        x: expectCoord(obj.x, `${path}.x`),
+        y: expectCoord(obj.y, `${path}.y`),
+        text: expectString(obj.text, `${path}.text`),
+        size: expectInRange(obj.size, `${path}.size`, 0, MAX_TEXT_SIZE)
+      };
+    default:
+      return fail(`${path}.kind`, `"${kind}" is not one of ${DRAWING_KINDS.join(', ')}`);
+  }
+};
+
+const validateMarker = (value: unknown, path: string): Marker => {
+  const obj = expectObject(value, path);
+  const type = expectString(obj.type, `${path}.type`);
+  if (!MARKER_TYPE_LIST.includes(type as MarkerType)) {
+    fail(`${path}.type`, `"${type}" is not one of ${MARKER_TYPE_LIST.join(', ')}`);
+  }
+  const expiresAt = optionalNumber(obj.expiresAt, `${path}.expiresAt`);
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    x: expectCoord(obj.x, `${path}.x`),
+    y: expectCoord(obj.y, `${path}.y`),
+    type: type as MarkerType,
+    ...(expiresAt !== undefined && { expiresAt })
+  };
+};
+
+const validateLayer = (value: unknown, path: string): Layer => {
+  const obj = expectObject(value, path);
+  return {
+    id: expectString(obj.id, `${path}.id`),
+    name: expectString(obj.name, `${path}.name`),
+    drawings: expectArray(obj.drawings, `${path}.drawings`).map((d, i) => validateDrawing(d, `${path}.drawings[${i}]`)),
+    markers: expectArray(obj.markers, `${path}.markers`).map((m, i) => validateMarker(m, `${path}.markers[${i}]`))
+  };
+};
+
+// Ids key React lists and every edit by id, so a repeated one would make edits land on the wrong item.
+// `seen` maps ids to the path of their first use and may be shared across several lists.
+const checkUniqueIds = (items: { id: string }[], itemPath: (index: number) => string, seen = new Map<string, string>()) => {
+  items.forEach((item, i) => {
+    const first = seen.get(item.id);
+    if (first) fail(`${itemPath(i)}.id`, `"${item.id}" is already used by ${first}`);
+    seen.set(item.id, itemPath(i));
+  });
+};
+
+const validateAnnotations = (value: unknown, path: string): AnnotationSet => {
+  const annotations = expectObject(value, path);
+  const layers = expectArray(annotations.layers, `${path}.layers`).map((l, i) => validateLayer(l, `${path}.layers[${i}]`));
+  if (!layers.length) fail(`${path}.layers`, 'must contain at least one layer');
+
+  checkUniqueIds(layers, i => `${path}.layers[${i}]`);
+  const drawingIds = new Map<string, string>();
+  const markerIds = new Map<string, string>();
+  layers.forEach((layer, l) => {
+    checkUniqueIds(layer.drawings, i => `${path}.layers[${l}].drawings[${i}]`, drawingIds);
+    checkUniqueIds(layer.markers, i => `${path}.layers[${l}].markers[${i}]`, markerIds);
+  });
+  return { layers };
+};
+
+const validateCrop = (value: unknown, path: string): PlanCrop => {
+  const obj = expectObject(value, path);
+  const frameWidth = optionalNumber(obj.frameWidth, `${path}.frameWidth`);
+  const frameHeight = optionalNumber(obj.frameHeight, `${path}.frameHeight`);
+  return {
+    x: expectNumber(obj.x, `${path}.x`),
+    y: expectNumber(obj.y, `${path}.y`),
+    width: expectNumber(obj.width, `${path}.width`),
+    height: expectNumber(obj.height, `${path}.height`),
+    ...(frameWidth !== undefined && { frameWidth }),
+    ...(frameHeight !== undefined && { frameHeight })
+  };
+};
+
+const validateStep = (value: unknown, path: string, index: number): PlaybookStep => {
+  const obj = expectObject(value, path);
+  return {
+    id: obj.id === undefined ? `step-${index + 1}` : expectString(obj.id, `${path}.id`),
+    label: expectString(obj.label, `${path}.label`),
+    note: obj.note === undefined ? '' : expectString(obj.note, `${path}.note`),
+    annotations: validateAnnotations(obj.annotations, `${path}.annotations`)
+  };
+};
+
+// --- Migrations. MIGRATIONS[n] upgrades a raw version n document to version n + 1. ---
+// Version 1 is the first, so there are none yet; a format change adds its step here and bumps PLAN_FORMAT_VERSION.
+
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const serializePlan = (name: string, annotations: AnnotationSet, crop?: PlanCrop): string => {
+  const file: PlanFile = {
+    format: PLAN_FORMAT,
+    version: PLAN_FORMAT_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    ...(crop && { crop }),
+    annotations
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const serializePlaybook = (name: string, steps: PlaybookStep[], crop?: PlanCrop): string => {
+  const file: PlaybookFile = {
+    format: PLAYBOOK_FORMAT,
+    version: PLAYBOOK_FORMAT_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    ...(crop && { crop }),
+    steps
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const parseDocument = (text: string): Record<string, unknown> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new PlanFormatError(`File is not valid JSON (${(e as Error).message})`);
+  }
+  return expectObject(raw, 'Plan file');
+};
+
+const parsePlanDocument = (raw: Record<string, unknown>): PlanFile => {
+  let doc = raw;
+  if (doc.format !== PLAN_FORMAT) {
+    fail('format', `must be "${PLAN_FORMAT}" (is this a plan file?)`);
+  }
+
+  let version = expectNumber(doc.version, 'version');
+  if (version > PLAN_FORMAT_VERSION) {
+    fail('version', `${version} is newer than this app supports (${PLAN_FORMAT_VERSION}); please update`);
+  }
+  while (version < PLAN_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version] || fail('version', `${version} is not a known plan format version`);
+    doc = migrate(doc);
+    version = expectNumber(doc.version, 'version');
+  }
+
+  return {
+    format: PLAN_FORMAT,
+    version,
+    name: doc.name === undefined ? 'Imported plan' : expectString(doc.name, 'name'),
+    exportedAt: doc.exportedAt === undefined ? '' : expectString(doc.exportedAt, 'exportedAt'),
+    ...(doc.crop !== undefined && { crop: validateCrop(doc.crop, 'crop') }),
+    annotations: validateAnnotations(doc.annotations, 'annotations')
+  };
+};
+
+// Parses, migrates and validates a plan file. Throws PlanFormatError with a readable message.
+export const parsePlan = (text: string): PlanFile => parsePlanDocument(parseDocument(text));
+
+const parsePlaybookDocument = (doc: Record<string, unknown>): PlaybookFile => {
+  const version = expectNumber(doc.version, 'version');
+  if (version !== PLAYBOOK_FORMAT_VERSION) {
+    fail('version', version > PLAYBOOK_FORMAT_VERSION
+      ? `${version} is newer than this app supports (${PLAYBOOK_FORMAT_VERSION}); please update`
+      : `${version} is not a known playbook format version`);
+  }
+
+  const steps = expectArray(doc.steps, 'steps').map((s, i) => validateStep(s, `steps[${i}]`, i));
+  if (!steps.length) fail('steps', 'must contain at least one step');
+  checkUniqueIds(steps, i => `steps[${i}]`);
+
+  return {
+    format: PLAYBOOK_FORMAT,
+    version,
+    name: doc.name === undefined ? 'Imported playbook' : expectString(doc.name, 'name'),
+    exportedAt: doc.exportedAt === undefined ? '' : expectString(doc.exportedAt, 'exportedAt'),
+    ...(doc.crop !== undefined && { crop: validateCrop(doc.crop, 'crop') }),
+    steps
+  };
+};
+
+// Parses either kind of shared file, telling them apart by their "format" field
+export const parseSharedFile = (text: string): PlanFile | PlaybookFile => {
+  const doc = parseDocument(text);
+  return doc.format === PLAYBOOK_FORMAT ? parsePlaybookDocument(doc) : parsePlanDocument(doc);
+};
@@ -0,0 +1,48 @@
+import { AnnotationSet, Playbook, PlaybookStep } from '../types';
+import { createId } from './ids';
+import { createDefaultAnnotations } from './layers';
+
+export const createStep = (label: string, annotations: AnnotationSet, id = createId('step')): PlaybookStep => ({
+  id,
+  label,
+  note: '',
+  annotations
+});
+
+// A new playbook starts with the current annotations as its first step
+export const createPlaybook = (name: string, annotations: AnnotationSet): Playbook => {
+  const now = Date.now();
+  return {
+    id: createId('playbook'),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    steps: [createStep('Step 1', annotations)]
+  };
+};
+
+// Applies fn to one step. Returns the same playbook when fn returns the step unchanged.
+export const updateStep = (playbook: Playbook, index: number, fn: (step: PlaybookStep) => PlaybookStep): Playbook => {
+  const step = playbook.steps[index];
+  if (!step) return playbook;
+  const next = fn(step);
+  if (next === step) return playbook;
+  const steps = [...playbook.steps];
+  steps[index] = next;
+  return { ...playbook, steps };
+};
+
+// Inserts a step after `index`. The new step copies that step's annotations, since phases usually build on each other.
+export const insertStepAfter = (playbook: Playbook, index: number, label: string): Playbook => {
+  const source = playbook.steps[index];
+  const step = createStep(label, source ? source.annotations : createDefaultAnnotations());
+  const steps = [...playbook.steps];
+  steps.splice(index + 1, 0, step);
+  return { ...playbook, steps };
+};
+
+// The last step can't be removed; a playbook always has at least one
+export const removeStep = (playbook: Playbook, index: number): Playbook => {
+  if (playbook.steps.length <= 1 || !playbook.steps[index]) return playbook;
+  return { ...playbook, steps: playbook.steps.filter((_, i) => i !== index) };
+};
@@ -0,0 +1,68 @@
+import { AnalyzerProvider, AnalyzerSettings } from '../types';
+
+// Small per-machine preferences kept in localStorage
+
+const FPS_CAP_KEY = 'deadlock-map-fps-cap';
+
+// Map redraw limits offered in the sidebar; 0 means no cap
+export const FPS_CAP_OPTIONS = [0, 60, 30, 15];
+
+export const loadFpsCap = (): number => {
+  const stored = Number(localStorage.getItem(FPS_CAP_KEY));
+  return FPS_CAP_OPTIONS.includes(stored) ? stored : 0;
+};
+
+export const storeFpsCap = (fps: number) => {
+  localStorage.setItem(FPS_CAP_KEY, String(fps));
+};
+
+const RESTART_ON_STALL_KEY = 'deadlock-map-restart-on-stall';
+
+// Off unless chosen: menus and loading screens can look like a frozen or black capture
+export const loadRestartOnStall = (): boolean => localStorage.getItem(RESTART_ON_STALL_KEY) === 'true';
+
+export const storeRestartOnStall = (enabled: boolean) => {
+  localStorage.setItem(RESTART_ON_STALL_KEY, String(enabled));
+};
+
+const ANALYZER_KEY = 'deadlock-map-analyzer';
+
+export const ANALYZER_PROVIDERS: AnalyzerProvider[] = ['gemini', 'openai', 'mock'];
+
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = {
+  provider: 'gemini',
+  gemini: { apiKey: '', model: 'gemini-3-flash-preview' },
+  // Ollama's OpenAI-compatible endpoint, the most common local setup
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '', model: 'llava' }
+};
+
+const stringOr = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+
+// API keys typed into settings stay on this machine, next to the other preferences
+export const loadAnalyzerSettings = (): AnalyzerSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ANALYZER_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      const { gemini, openai } = DEFAULT_ANALYZER_SETTINGS;
+      return {
+        provider: ANALYZER_PROVIDERS.includes(stored.provider) ? stored.provider : DEFAULT_ANALYZER_SETTINGS.provider,
+        gemini: {
+          apiKey: stringOr(stored.gemini?.apiKey, gemini.apiKey),
+          model: stringOr(stored.gemini?.model, gemini.model)
+        },
+        openai: {
+          baseUrl: stringOr(stored.openai?.baseUrl, openai.baseUrl),
+          apiKey: stringOr(stored.openai?.apiKey, openai.apiKey),
+          model: stringOr(stored.openai?.model, openai.model)
+        }
+      };
+    }
+  } catch {
+    // Corrupt entry: start from the defaults
+  }
+  return DEFAULT_ANALYZER_SETTINGS;
+};
+
+export const storeAnalyzerSettings = (settings: AnalyzerSettings) => {
+  localStorage.setItem(ANALYZER_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,28 @@
+import { CropRegion } from '../types';
+
+// Reference mode: plan on a static map image when no capture stream is running.
+// The bundled map is a lane schematic served from public/; players can load their own screenshot instead.
+export const BUNDLED_REFERENCE_MAP = 'maps/reference-map.svg';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Could not load map image'));
+  image.src = src;
+});
+
+// Reads a user-picked image file; a data URL keeps the image usable after the file input is reset
+export const loadImageFile = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => loadImage(reader.result as string).then(resolve, reject);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// The whole image is the map area, expressed as a crop region so it can stand in for the video crop
+export const imageCrop = (image: HTMLImageElement): CropRegion => ({
+  x: 0,
+  y: 0,
+  width: image.naturalWidth || 1,
+  height: image.naturalHeight || 1
+});
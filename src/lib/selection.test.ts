@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { deleteSelection, duplicateSelection, pickAt, pruneSelection, selectInLasso, transformSelection } from './selection';
+import { Drawing, Marker } from '../types';
+
+const SCALE = { w: 100, h: 100 };
+
+const drawings: Drawing[] = [
+  { kind: 'path', id: 'left', color: '#fff', width: 2, points: [{ x: 0.1, y: 0.1 }, { x: 0.2, y: 0.2 }] },
+  { kind: 'arrow', id: 'right', color: '#fff', width: 2, start: { x: 0.7, y: 0.7 }, end: { x: 0.9, y: 0.9 } }
+];
+const markers: Marker[] = [
+  { id: 'ward', x: 0.15, y: 0.15, type: 'ward' },
+  { id: 'danger', x: 0.8, y: 0.2, type: 'danger' }
+];
+
+const moveRight = (p: { x: number; y: number }) => ({ x: p.x + 0.25, y: p.y });
+
+describe('picking', () => {
+  it('prefers markers over the drawings beneath them', () => {
+    expect(pickAt({ x: 0.15, y: 0.15 }, drawings, markers, 5, SCALE)).toEqual({ drawings: [], markers: ['ward'] });
+  });
+
+  it('picks a drawing when no marker is in reach', () => {
+    expect(pickAt({ x: 0.8, y: 0.8 }, drawings, markers, 5, SCALE)).toEqual({ drawings: ['right'], markers: [] });
+    expect(pickAt({ x: 0.5, y: 0.5 }, drawings, markers, 5, SCALE)).toBeNull();
+  });
+
+  it('lassoes everything with a point inside the polygon', () => {
+    const lasso = [{ x: 0, y: 0 }, { x: 0.3, y: 0 }, { x: 0.3, y: 0.3 }, { x: 0, y: 0.3 }];
+    expect(selectInLasso(lasso, drawings, markers, SCALE)).toEqual({ drawings: ['left'], markers: ['ward'] });
+  });
+});
+
+describe('pruneSelection', () => {
+  it('keeps the selection pointing at the same items after others are removed', () => {
+    const sel = { drawings: ['right'], markers: ['danger'] };
+    expect(pruneSelection(sel, drawings.slice(1), markers.slice(1))).toBe(sel);
+  });
+
+  it('drops items that are gone', () => {
+    const sel = { drawings: ['left', 'right'], markers: ['ward'] };
+    expect(pruneSelection(sel, drawings.slice(1), markers.slice(1))).toEqual({ drawings: ['right'], markers: [] });
+  });
+});
+
+describe('transformSelection', () => {
+  it('moves selected items from their positions at the start of the drag', () => {
+    const sel = { drawings: ['right'], markers: ['ward'] };
+    const moved = transformSelection(sel, { drawings, markers }, { drawings, markers }, moveRight);
+
+    expect(moved.drawings[0]).toBe(drawings[0]);
+    expect(moved.drawings[1]).toMatchObject({ start: { x: 0.95, y: 0.7 }, end: { x: 1.15, y: 0.9 } });
+    expect(moved.markers[0]).toMatchObject({ id: 'ward', x: 0.4, y: 0.15 });
+    expect(moved.markers[1]).toBe(markers[1]);
+  });
+
+  it('does not bring back items removed during the drag', () => {
+    const sel = { drawings: ['left', 'right'], markers: [] };
+    const current = { drawings: drawings.slice(1), markers };
+    const moved = transformSelection(sel, current, { drawings, markers }, moveRight);
+
+    expect(moved.drawings.map(d => d.id)).toEqual(['right']);
+  });
+});
+
+describe('deleteSelection and duplicateSelection', () => {
+  const sel = { drawings: ['left'], markers: ['danger'] };
+
+  it('delete only the selected items', () => {
+    const rest = deleteSelection(sel, drawings, markers);
+    expect(rest.drawings.map(d => d.id)).toEqual(['right']);
+    expect(rest.markers.map(m => m.id)).toEqual(['ward']);
+  });
+
+  it('duplicate into offset copies with new ids and select them', () => {
+    const result = duplicateSelection(sel, drawings, markers);
+    const drawingCopy = result.drawings[2];
+    const markerCopy = result.markers[2];
+
+    expect(result.drawings).toHaveLength(3);
+    expect(drawingCopy.id).not.toBe('left');
+    expect(markerCopy.id).not.toBe('danger');
+    expect(markerCopy.x).toBeCloseTo(0.82);
+    expect(result.selection).toEqual({ drawings: [drawingCopy.id], markers: [markerCopy.id] });
+  });
+});
@@ -0,0 +1,108 @@
+import { Drawing, Marker, Point } from '../types';
+import { Bounds, RenderScale, boundsOf, drawingPoints, hitTestDrawing, pointInPolygon, screenDistance, transformDrawing } from './geometry';
+import { createId } from './ids';
+
+// Selected items of the active layer, by id so the selection survives other items being removed
+export interface Selection {
+  drawings: string[];
+  markers: string[];
+}
+
+export const EMPTY_SELECTION: Selection = { drawings: [], markers: [] };
+
+// Offset applied to duplicates so they don't sit exactly on top of the originals
+const DUPLICATE_OFFSET = 0.02;
+
+export const isSelectionEmpty = (sel: Selection) => !sel.drawings.length && !sel.markers.length;
+
+// Drops references to items that are gone (undo, erase, expiry)
+export const pruneSelection = (sel: Selection, drawings: Drawing[], markers: Marker[]): Selection => {
+  const validDrawings = sel.drawings.filter(id => drawings.some(d => d.id === id));
+  const validMarkers = sel.markers.filter(id => markers.some(m => m.id === id));
+  if (validDrawings.length === sel.drawings.length && validMarkers.length === sel.markers.length) return sel;
+  return { drawings: validDrawings, markers: validMarkers };
+};
+
+// Bounds of everything selected, padded by `padding` pixels so markers and thin strokes get a visible box
+export const selectionBounds = (sel: Selection, drawings: Drawing[], markers: Marker[], scale: RenderScale, padding = 0): Bounds | null => {
+  const points: Point[] = [];
+  drawings.forEach(d => sel.drawings.includes(d.id) && points.push(...drawingPoints(d, scale)));
+  markers.forEach(m => sel.markers.includes(m.id) && points.push(m));
+
+  const b = boundsOf(points);
+  if (!b || !scale.w || !scale.h) return b;
+  const px = padding / scale.w;
+  const py = padding / scale.h;
+  return { minX: b.minX - px, minY: b.minY - py, maxX: b.maxX + px, maxY: b.maxY + py };
+};
+
+// Topmost single item under the point: markers first since they are drawn above drawings
+export const pickAt = (point: Point, drawings: Drawing[], markers: Marker[], radius: number, scale: RenderScale): Selection | null => {
+  for (let i = markers.length - 1; i >= 0; i--) {
+    if (screenDistance(markers[i], point, scale) <= radius) return { drawings: [], markers: [markers[i].id] };
+  }
+  for (let i = drawings.length - 1; i >= 0; i--) {
+    if (hitTestDrawing(drawings[i], point, radius, scale)) return { drawings: [drawings[i].id], markers: [] };
+  }
+  return null;
+};
+
+// Everything with at least one defining point inside the lasso polygon
+export const selectInLasso = (lasso: Point[], drawings: Drawing[], markers: Marker[], scale: RenderScale): Selection => ({
+  drawings: drawings.filter(d => drawingPoints(d, scale).some(p => pointInPolygon(p, lasso))).map(d => d.id),
+  markers: markers.filter(m => pointInPolygon(m, lasso)).map(m => m.id)
+});
+
+export const mergeSelection = (a: Selection, b: Selection): Selection => ({
+  drawings: [...new Set([...a.drawings, ...b.drawings])],
+  markers: [...new Set([...a.markers, ...b.markers])]
+});
+
+export const isSelected = (sel: Selection, pick: Selection) => {
+  return pick.drawings.every(id => sel.drawings.includes(id)) && pick.markers.every(id => sel.markers.includes(id));
+};
+
+// Maps the selected items through fn, starting from their positions in `original` (the drag start).
+// Everything else comes from `current`, so items removed during the drag stay removed.
+export const transformSelection = (
+  sel: Selection,
+  current: { drawings: Drawing[]; markers: Marker[] },
+  original: { drawings: Drawing[]; markers: Marker[] },
+  fn: (p: Point) => Point,
+  scale = 1
+) => ({
+  drawings: current.drawings.map(d => {
+    if (!sel.drawings.includes(d.id)) return d;
+    return transformDrawing(original.drawings.find(o => o.id === d.id) ?? d, fn, scale);
+  }),
+  markers: current.markers.map(m => {
+    if (!sel.markers.includes(m.id)) return m;
+    return { ...m, ...fn(original.markers.find(o => o.id === m.id) ?? m) };
+  })
+});
+
+export const deleteSelection = (sel: Selection, drawings: Drawing[], markers: Marker[]) => ({
+  drawings: drawings.filter(d => !sel.drawings.includes(d.id)),
+  markers: markers.filter(m => !sel.markers.includes(m.id))
+});
+
+// Appends offset copies and returns the selection pointing at the copies
+export const duplicateSelection = (sel: Selection, drawings: Drawing[], markers: Marker[]) => {
+  const offset = (p: Point) => ({ x: p.x + DUPLICATE_OFFSET, y: p.y + DUPLICATE_OFFSET });
+
+  const drawingCopies = drawings
+    .filter(d => sel.drawings.includes(d.id))
+    .map(d => ({ ...transformDrawing(d, offset), id: createId('drawing') }));
+  const markerCopies = markers
+    .filter(m => sel.markers.includes(m.id))
+    .map(m => ({ ...m, ...offset(m), id: createId('marker') }));
+
+  return {
+    drawings: [...drawings, ...drawingCopies],
+    markers: [...markers, ...markerCopies],
+    selection: {
+      drawings: drawingCopies.map(d => d.id),
+      markers: markerCopies.map(m => m.id)
+    }
+  };
+};
@@ -0,0 +1,14 @@
+const THUMBNAIL_WIDTH = 160;
+
+// Downscaled JPEG snapshot of a canvas, small enough to keep alongside every saved plan
+export const createThumbnail = (source: HTMLCanvasElement, width = THUMBNAIL_WIDTH): string => {
+  const thumb = document.createElement('canvas');
+  const aspect = source.height / source.width || 1;
+  thumb.width = width;
+  thumb.height = Math.round(width * aspect);
+
+  const ctx = thumb.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(source, 0, 0, thumb.width, thumb.height);
+  return thumb.toDataURL('image/jpeg', 0.7);
+};
@@ -0,0 +1,17 @@
+// Calls onFrame whenever the video presents a new frame. Without requestVideoFrameCallback it falls
+// back to polling once per display frame. Returns a function that stops watching.
+export const onVideoFrames = (video: HTMLVideoElement, onFrame: () => void): (() => void) => {
+  if ('requestVideoFrameCallback' in video) {
+    let request = video.requestVideoFrameCallback(function next() {
+      request = video.requestVideoFrameCallback(next);
+      onFrame();
+    });
+    return () => video.cancelVideoFrameCallback(request);
+  }
+
+  let request = requestAnimationFrame(function poll() {
+    request = requestAnimationFrame(poll);
+    onFrame();
+  });
+  return () => cancelAnimationFrame(request);
+};
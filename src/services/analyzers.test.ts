@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockAnalyzer } from './analyzers';
+
+describe('mockAnalyzer', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  // Runs one analysis, skipping the simulated latency
+  const analyze = async (analyzer: ReturnType<typeof mockAnalyzer>) => {
+    const result = analyzer.analyze('data:image/png;base64,');
+    await vi.runAllTimersAsync();
+    return result;
+  };
+
+  it('answers with the same sequence every time, including an all clear', async () => {
+    const first = mockAnalyzer();
+    const second = mockAnalyzer();
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await analyze(first));
+
+    expect(results[0]).toEqual({ voice: 'Three enemies top', text: 'Three enemy heroes grouping top lane' });
+    expect(results[1]).toBeNull();
+    expect(await analyze(second)).toEqual(results[0]);
+  });
+
+  it('starts over after the last alert', async () => {
+    const analyzer = mockAnalyzer();
+    const results = [];
+    for (let i = 0; i < 5; i++) results.push(await analyze(analyzer));
+
+    expect(results[4]).toEqual(results[0]);
+  });
+});
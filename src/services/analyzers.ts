@@ -0,0 +1,48 @@
+import { AnalyzerProvider, AnalyzerSettings } from '../types';
+import { MapAnalyzer, TacticalAlert } from './mapAnalyzer';
+import { geminiAnalyzer } from './geminiService';
+import { openAiAnalyzer } from './openAiAnalyzer';
+
+export const ANALYZER_LABELS: Record<AnalyzerProvider, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (offline)'
+};
+
+// The mock answers with these in turn, null being "all clear", so every press gives a predictable result
+const MOCK_ALERTS: (TacticalAlert | null)[] = [
+  { voice: "Three enemies top", text: "Three enemy heroes grouping top lane" },
+  null,
+  { voice: "Mid lane danger", text: "Enemy hero pushing deep mid" },
+  { voice: "Gank bottom", text: "Two enemies rotating to bottom lane" }
+];
+// Short pause so the button's busy state shows, like a real request
+const MOCK_LATENCY_MS = 300;
+
+// Deterministic stand-in that never touches the network, for trying the alert flow and for testing
+export const mockAnalyzer = (): MapAnalyzer => {
+  let calls = 0;
+  return {
+    analyze: async () => {
+      await new Promise(r => setTimeout(r, MOCK_LATENCY_MS));
+      return MOCK_ALERTS[calls++ % MOCK_ALERTS.length];
+    }
+  };
+};
+
+export const createAnalyzer = (settings: AnalyzerSettings): MapAnalyzer => {
+  switch (settings.provider) {
+    case 'gemini': return geminiAnalyzer(settings.gemini);
+    case 'openai': return openAiAnalyzer(settings.openai);
+    case 'mock': return mockAnalyzer();
+  }
+};
+
+// Whether the AI button has a chance of working; otherwise it stays hidden until settings are filled in
+export const isAnalyzerConfigured = (settings: AnalyzerSettings) => {
+  switch (settings.provider) {
+    case 'gemini': return !!(settings.gemini.apiKey || process.env.API_KEY);
+    case 'openai': return !!(settings.openai.baseUrl && settings.openai.model);
+    case 'mock': return true;
+  }
+};
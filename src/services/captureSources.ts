@@ -0,0 +1,188 @@
+import { FrameSize } from '../types';
+import { loadImageFile } from '../lib/referenceMap';
+
+// Capture sources
+// ===============
+// Everything that can feed the map a picture of the game screen. Starting a source gives a session that
+// owns the MediaStream, plus anything needed to keep it running (object URLs, hidden elements), until stop().
+
+export interface CaptureSession {
+  stream: MediaStream;
+  frame: FrameSize; // captured frame size in pixels
+  // The picture never changes (a screenshot), so health monitoring shouldn't call it frozen
+  still?: boolean;
+  stop: () => void;
+}
+
+export interface CaptureSource {
+  // Whether start() can run again without the user, to reconnect a lost stream. Pickers need a click.
+  autoRestart: boolean;
+  start: () => Promise<CaptureSession>;
+}
+
+// Thrown when a source can't start. The message is short enough for the status line.
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+// IPC channel electron-main.js answers with desktopCapturer.getSources()
+export const ELECTRON_SOURCES_CHANNEL = 'desktop-capturer-get-sources';
+
+// Still images are repainted at this rate so late consumers of the stream get a frame
+const IMAGE_FRAME_RATE = 1;
+
+const FALLBACK_FRAME: FrameSize = { w: 1920, h: 1080 };
+
+const stopTracks = (stream: MediaStream) => stream.getTracks().forEach(track => track.stop());
+
+// Session for a plain stream, sized from its video track
+const streamSession = (stream: MediaStream, fallback = FALLBACK_FRAME): CaptureSession => {
+  const { width, height } = stream.getVideoTracks()[0]?.getSettings() ?? {};
+  return { stream, frame: { w: width || fallback.w, h: height || fallback.h }, stop: () => stopTracks(stream) };
+};
+
+// Chromium's desktop capture constraints, used by both Overwolf and Electron
+const captureDesktop = (sourceId: string): Promise<MediaStream> => navigator.mediaDevices.getUserMedia({
+  audio: false,
+  video: {
+    mandatory: {
+      chromeMediaSource: 'desktop',
+      chromeMediaSourceId: sourceId
+    }
+  }
+} as any);
+
+// --- Overwolf: the monitor the game window is on ---
+
+export const isOverwolf = () => typeof window.overwolf !== 'undefined';
+
+export const overwolfMonitorSource = (gameInfo: any): CaptureSource => ({
+  autoRestart: true,
+  start: async () => {
+    const res = await new Promise<any>(r => overwolf.utils.getMonitorsList(r));
+    if (!res.monitors || res.monitors.length === 0) throw new CaptureError('No Monitor Found');
+
+    const cx = (gameInfo.logicalLeft || 0) + (gameInfo.width || 1920) / 2;
+    const cy = (gameInfo.logicalTop || 0) + (gameInfo.height || 1080) / 2;
+    const monitor = res.monitors.find((m: any) => cx >= m.x && cx <= m.x + m.width && cy >= m.y && cy <= m.y + m.height) || res.monitors[0];
+
+    try {
+      const stream = await captureDesktop(`screen:${monitor.id}`);
+      return { stream, frame: { w: monitor.width, h: monitor.height }, stop: () => stopTracks(stream) };
+    } catch (e) {
+      console.error(e);
+      throw new CaptureError('Auto-Sync Failed');
+    }
+  }
+});
+
+// --- Browser: the user picks a screen or window ---
+
+export const displayMediaSource: CaptureSource = {
+  autoRestart: false,
+  start: async () => {
+    try {
+      return streamSession(await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false }));
+    } catch {
+      throw new CaptureError('Selection Cancelled');
+    }
+  }
+};
+
+// --- Electron: desktopCapturer lives in the main process, so the source list comes over IPC ---
+
+// The renderer runs with nodeIntegration (see electron-main.js); elsewhere there is no require
+const electronIpc = (): any => (window as any).require?.('electron')?.ipcRenderer ?? null;
+
+export const isElectron = () => !!electronIpc();
+
+export const electronScreenSource: CaptureSource = {
+  autoRestart: true,
+  start: async () => {
+    const ipc = electronIpc();
+    if (!ipc) throw new CaptureError('Electron Unavailable');
+
+    const sources: { id: string; name: string }[] = await ipc.invoke(ELECTRON_SOURCES_CHANNEL, { types: ['screen'] });
+    // The primary screen comes first
+    const screen = sources.find(s => s.id.startsWith('screen:')) || sources[0];
+    if (!screen) throw new CaptureError('No Screen Found');
+
+    try {
+      return streamSession(await captureDesktop(screen.id));
+    } catch (e) {
+      console.error(e);
+      throw new CaptureError('Screen Capture Failed');
+    }
+  }
+};
+
+// Screen picker for the runtime we're in; Overwolf can also use the browser picker
+export const manualCaptureSource = (): CaptureSource => isElectron() ? electronScreenSource : displayMediaSource;
+
+// --- File: a recorded match (video) or a screenshot (image) stands in for the live screen ---
+
+const videoFileSession = async (file: File): Promise<CaptureSession> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.loop = true;
+  video.src = url;
+
+  try {
+    await video.play();
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new CaptureError('Unsupported Video File');
+  }
+
+  // captureStream is missing from the DOM typings for media elements
+  const stream: MediaStream = (video as HTMLVideoElement & { captureStream(): MediaStream }).captureStream();
+  return {
+    stream,
+    frame: { w: video.videoWidth, h: video.videoHeight },
+    stop: () => {
+      stopTracks(stream);
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    }
+  };
+};
+
+const imageFileSession = async (file: File): Promise<CaptureSession> => {
+  let image: HTMLImageElement;
+  try {
+    image = await loadImageFile(file);
+  } catch {
+    throw new CaptureError('Could Not Read Image');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new CaptureError('Could Not Read Image');
+
+  const paint = () => ctx.drawImage(image, 0, 0);
+  paint();
+  const stream = canvas.captureStream(IMAGE_FRAME_RATE);
+  const timer = window.setInterval(paint, 1000 / IMAGE_FRAME_RATE);
+  return {
+    stream,
+    frame: { w: canvas.width, h: canvas.height },
+    still: true,
+    stop: () => {
+      clearInterval(timer);
+      stopTracks(stream);
+    }
+  };
+};
+
+export const fileSource = (file: File): CaptureSource => ({
+  autoRestart: true,
+  start: () => file.type.startsWith('image/') ? imageFileSession(file) : videoFileSession(file)
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseAlert, stripDataUrl } from './mapAnalyzer';
+
+describe('parseAlert', () => {
+  it('reads a bare JSON reply', () => {
+    expect(parseAlert('{"voice": "Gank top", "text": "Two enemies top lane"}')).toEqual({ voice: 'Gank top', text: 'Two enemies top lane' });
+  });
+
+  it('reads JSON inside a code fence', () => {
+    const reply = '```json\n{ "voice": "Mid lane danger", "text": "Enemy hero pushing deep mid" }\n```';
+    expect(parseAlert(reply)).toEqual({ voice: 'Mid lane danger', text: 'Enemy hero pushing deep mid' });
+  });
+
+  it('reads JSON wrapped in prose', () => {
+    const reply = 'Here is my analysis: {"voice": "Three enemies top", "text": "Grouping near top walker"} Stay safe!';
+    expect(parseAlert(reply)).toEqual({ voice: 'Three enemies top', text: 'Grouping near top walker' });
+  });
+
+  it('fills in a missing or non-string field with an empty string', () => {
+    expect(parseAlert('{"voice": "Gank bottom", "text": 3}')).toEqual({ voice: 'Gank bottom', text: '' });
+  });
+
+  it('treats empty strings as all clear', () => {
+    expect(parseAlert('{"voice": "", "text": ""}')).toBeNull();
+  });
+
+  it('returns null for replies without usable JSON', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseAlert('All clear, nothing to report.')).toBeNull();
+    expect(parseAlert('{"voice": "Gank top", text}')).toBeNull();
+    warn.mockRestore();
+  });
+});
+
+describe('stripDataUrl', () => {
+  it('leaves only the base64 payload', () => {
+    expect(stripDataUrl('data:image/png;base64,iVBORw0K')).toBe('iVBORw0K');
+    expect(stripDataUrl('iVBORw0K')).toBe('iVBORw0K');
+  });
+});
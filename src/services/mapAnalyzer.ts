@@ -0,0 +1,60 @@
+// Map analyzers
+// =============
+// The AI button sends a snapshot of the captured map crop to whichever analyzer is selected in settings and
+// shows the alert that comes back. Every provider shares the prompt and the JSON reply format below.
+
+export interface TacticalAlert {
+  voice: string; // Very short string for TTS (e.g. "Gank Top")
+  text: string;  // Slightly longer text for display
+}
+
+export interface MapAnalyzer {
+  // Resolves to null when nothing dangerous is happening or the analysis failed
+  analyze: (base64Image: string) => Promise<TacticalAlert | null>;
+}
+
+export const ANALYSIS_PROMPT = `You are a tactical computer for the MOBA game Deadlock.
+Analyze this minimap screenshot.
+
+OBJECT RECOGNITION RULES:
+1. **IGNORE CREEPS/TROOPERS**: Small colored dots, tiny triangles, or small diamonds are generic units. DO NOT REPORT THEM.
+2. **IDENTIFY HEROES**: Heroes appear as LARGER CIRCLES with distinct character FACES/PORTRAITS inside them.
+3. **IGNORE PLAYER**: The yellow arrow/cone is the player. Ignore it unless surrounded.
+
+TACTICAL ANALYSIS:
+- Look for CLUSTERS of Enemy Hero Icons (Red Portraits).
+- Look for Enemy Hero Icons deep in a lane (pushing).
+- If you only see small dots (creeps), the status is CLEAR.
+
+OUTPUT FORMAT:
+Return a JSON object with "voice" and "text" fields.
+If nothing dangerous is happening (only creeps visible), return empty strings.`;
+
+// Spelled out for providers that can't enforce a response schema
+export const ALERT_FORMAT_HINT = `"voice" is a spoken alert of at most 3-5 words, e.g. "Three enemies top" or "Mid lane danger".
+"text" is display text of at most 8 words. Reply with the JSON object only.`;
+
+// Shown instead of an analysis when the selected provider can't run at all
+export const configurationAlert = (text: string): TacticalAlert => ({ voice: "System Error", text });
+
+export const stripDataUrl = (base64Image: string) => base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
+
+// Reads the alert out of a model reply. Chat models often wrap the JSON in a code fence or a sentence,
+// so the first {...} block is used.
+export const parseAlert = (rawText: string): TacticalAlert | null => {
+  const json = rawText.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    const alert: TacticalAlert = {
+      voice: typeof parsed.voice === 'string' ? parsed.voice : '',
+      text: typeof parsed.text === 'string' ? parsed.text : ''
+    };
+    // If strings are empty, return null
+    if (!alert.voice && !alert.text) return null;
+    return alert;
+  } catch (e) {
+    console.warn("Failed to parse JSON from AI", rawText);
+    return null;
+  }
+};
@@ -0,0 +1,49 @@
+import { AnalyzerSettings } from '../types';
+import { ALERT_FORMAT_HINT, ANALYSIS_PROMPT, MapAnalyzer, configurationAlert, parseAlert } from './mapAnalyzer';
+
+// Adapter for any server speaking the OpenAI chat completions API with image input: OpenAI itself,
+// other hosted gateways, or a model running locally (Ollama, llama.cpp, LM Studio, vLLM).
+
+// Local models can take a while to load on the first request
+const REQUEST_TIMEOUT_MS = 60000;
+
+export const openAiAnalyzer = ({ baseUrl, apiKey, model }: AnalyzerSettings['openai']): MapAnalyzer => ({
+  analyze: async (base64Image) => {
+    if (!baseUrl || !model) return configurationAlert("Analyzer Not Configured");
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without a key
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    const imageUrl = base64Image.startsWith('data:') ? base64Image : `data:image/png;base64,${base64Image}`;
+
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: `${ANALYSIS_PROMPT}\n${ALERT_FORMAT_HINT}` },
+              { type: 'image_url', image_url: { url: imageUrl } }
+            ]
+          }]
+        })
+      });
+      if (!response.ok) {
+        console.error("Analyzer request failed:", response.status, await response.text());
+        return null;
+      }
+
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      return typeof content === 'string' ? parseAlert(content) : null;
+    } catch (error) {
+      console.error("OpenAI-compatible Analysis Failed:", error);
+      return null;
+    }
+  }
+});
@@ -0,0 +1,84 @@
+import { Playbook, SavedPlan } from '../types';
+
+// Local plan and playbook libraries, stored in IndexedDB so plans (with thumbnails) survive reloads
+// without hitting localStorage's size limits.
+const DB_NAME = 'deadlock-map-companion';
+// v2 added the playbook store
+const DB_VERSION = 2;
+const PLAN_STORE = 'plans';
+const PLAYBOOK_STORE = 'playbooks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [PLAN_STORE, PLAYBOOK_STORE].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request against a store and resolves with its result
+const withStore = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Most recently updated first
+export const listPlans = async (): Promise<SavedPlan[]> => {
+  const plans = await withStore<SavedPlan[]>(PLAN_STORE, 'readonly', store => store.getAll());
+  return plans.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getPlan = async (id: string): Promise<SavedPlan | null> => {
+  const plan = await withStore<SavedPlan | undefined>(PLAN_STORE, 'readonly', store => store.get(id));
+  return plan || null;
+};
+
+export const savePlan = async (plan: SavedPlan): Promise<void> => {
+  await withStore(PLAN_STORE, 'readwrite', store => store.put(plan));
+};
+
+export const renamePlan = async (id: string, name: string): Promise<void> => {
+  const plan = await getPlan(id);
+  if (!plan) return;
+  await savePlan({ ...plan, name, updatedAt: Date.now() });
+};
+
+export const deletePlan = async (id: string): Promise<void> => {
+  await withStore(PLAN_STORE, 'readwrite', store => store.delete(id));
+};
+
+// --- Playbooks ---
+
+// Most recently updated first
+export const listPlaybooks = async (): Promise<Playbook[]> => {
+  const playbooks = await withStore<Playbook[]>(PLAYBOOK_STORE, 'readonly', store => store.getAll());
+  return playbooks.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const savePlaybook = async (playbook: Playbook): Promise<void> => {
+  await withStore(PLAYBOOK_STORE, 'readwrite', store => store.put(playbook));
+};
+
+export const deletePlaybook = async (id: string): Promise<void> => {
+  await withStore(PLAYBOOK_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RECONNECT_ATTEMPTS, frameDifference, meanLuminance, needsRestart, reconnectDelay, restartDelay } from './streamHealth';
+
+// Frame of `pixels` pixels all of one colour
+const solid = (pixels: number, r: number, g: number, b: number) => {
+  const data = new Uint8ClampedArray(pixels * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([r, g, b, 255], i);
+  return data;
+};
+
+describe('meanLuminance', () => {
+  it('weights the channels by perceived brightness', () => {
+    expect(meanLuminance(solid(4, 0, 0, 0))).toBe(0);
+    expect(meanLuminance(solid(4, 255, 255, 255))).toBeCloseTo(255);
+    expect(meanLuminance(solid(4, 0, 255, 0))).toBeGreaterThan(meanLuminance(solid(4, 255, 0, 0)));
+  });
+
+  it('handles an empty sample', () => {
+    expect(meanLuminance(new Uint8ClampedArray(0))).toBe(0);
+  });
+});
+
+describe('frameDifference', () => {
+  it('is zero for identical frames and ignores alpha', () => {
+    const frame = solid(4, 10, 20, 30);
+    const translucent = frame.slice();
+    translucent[3] = 0;
+    expect(frameDifference(frame, translucent)).toBe(0);
+  });
+
+  it('averages the per-channel difference', () => {
+    expect(frameDifference(solid(4, 0, 0, 0), solid(4, 30, 0, 0))).toBe(10);
+  });
+
+  it('treats samples of different sizes as different pictures', () => {
+    expect(frameDifference(solid(4, 0, 0, 0), solid(2, 0, 0, 0))).toBe(Infinity);
+  });
+});
+
+describe('reconnecting', () => {
+  it('backs off exponentially up to 30 seconds', () => {
+    expect([0, 1, 2, 3, 4, 5].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 30000]);
+    expect(reconnectDelay(MAX_RECONNECT_ATTEMPTS)).toBe(30000);
+  });
+
+  it('always restarts the source for faults of the stream itself', () => {
+    expect(needsRestart('ended', false)).toBe(true);
+    expect(needsRestart('muted', false)).toBe(true);
+    expect(needsRestart('live', true)).toBe(false);
+  });
+
+  it('restarts for frozen or black pictures only when that is switched on', () => {
+    expect(needsRestart('frozen', false)).toBe(false);
+    expect(needsRestart('black', false)).toBe(false);
+    expect(needsRestart('frozen', true)).toBe(true);
+    expect(needsRestart('black', true)).toBe(true);
+  });
+
+  it('waits longer before restarting for a frozen or black picture', () => {
+    expect(restartDelay('ended', 0)).toBe(1000);
+    expect(restartDelay('frozen', 0)).toBe(15000);
+    expect(restartDelay('black', 5)).toBe(30000);
+  });
+});
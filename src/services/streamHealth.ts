@@ -0,0 +1,128 @@
+// Capture stream health
+// =====================
+// Watches a capture stream for the ways it silently stops being useful: the track ends (permission
+// revoked, monitor unplugged), the source stops delivering frames (muted), the picture stops changing
+// (frozen) or goes black. Frames are sampled at a tiny size, so watching costs next to nothing.
+// Frozen and black are judged on the whole picture, so a static menu or a loading screen looks the
+// same as a stalled capture; restarting the source for them is therefore a setting.
+
+export type StreamHealth = 'live' | 'muted' | 'frozen' | 'black' | 'ended';
+
+const SAMPLE_INTERVAL_MS = 1000;
+const SAMPLE_WIDTH = 64;
+const SAMPLE_HEIGHT = 36;
+// How long each problem has to last before it is reported
+const MUTED_AFTER_MS = 3000;
+const BLACK_AFTER_MS = 3000;
+const FROZEN_AFTER_MS = 5000;
+// Mean luminance (0..255) below which a frame counts as black
+const BLACK_LEVEL = 8;
+// Mean per-channel difference (0..255) below which two samples count as the same picture
+const FROZEN_DIFFERENCE = 0.5;
+
+// Reconnect backoff: 1s, 2s, 4s ... up to 30s, then give up until the user steps in
+export const MAX_RECONNECT_ATTEMPTS = 8;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// A frozen or black picture has to last this much longer before the first restart, so a short
+// stay in a menu doesn't restart the capture
+const STALL_RESTART_MS = 15000;
+
+export const reconnectDelay = (attempt: number) => Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+
+const isStall = (health: StreamHealth) => health === 'frozen' || health === 'black';
+
+// Whether the source is restarted without a click. Ended and muted streams always are.
+export const needsRestart = (health: StreamHealth, restartOnStall: boolean) =>
+  health === 'ended' || health === 'muted' || (restartOnStall && isStall(health));
+
+// Wait before restart attempt number `attempt` (counting from 0) for a stream in this state
+export const restartDelay = (health: StreamHealth, attempt: number) =>
+  isStall(health) ? Math.max(STALL_RESTART_MS, reconnectDelay(attempt)) : reconnectDelay(attempt);
+
+export const meanLuminance = (data: Uint8ClampedArray): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  return sum / (data.length / 4 || 1);
+};
+
+export const frameDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  if (a.length !== b.length) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    sum += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+  }
+  return sum / ((a.length / 4) * 3 || 1);
+};
+
+export interface StreamWatchOptions {
+  // The source is a still image, so an unchanging picture is expected
+  still?: boolean;
+}
+
+// Calls onChange whenever the stream's health changes. Returns a function that stops watching.
+export const watchStreamHealth = (
+  stream: MediaStream,
+  onChange: (health: StreamHealth) => void,
+  { still = false }: StreamWatchOptions = {}
+): (() => void) => {
+  const track = stream.getVideoTracks()[0];
+  const video = document.createElement('video');
+  video.muted = true;
+  video.srcObject = stream;
+  video.play().catch(() => {
+    // Nothing to sample; the checks below report the stream as black
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = SAMPLE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  let health: StreamHealth = 'live';
+  let previous: Uint8ClampedArray | null = null;
+  let lastChange = Date.now();
+  let lastLight = Date.now();
+  let mutedSince: number | null = track?.muted ? Date.now() : null;
+
+  const report = (next: StreamHealth) => {
+    if (next === health) return;
+    health = next;
+    onChange(next);
+  };
+
+  const check = () => {
+    if (!track || track.readyState === 'ended') return report('ended');
+    const now = Date.now();
+
+    if (ctx && video.readyState >= video.HAVE_CURRENT_DATA) {
+      ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      const sample = ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data;
+      if (!previous || frameDifference(previous, sample) > FROZEN_DIFFERENCE) lastChange = now;
+      if (meanLuminance(sample) > BLACK_LEVEL) lastLight = now;
+      previous = sample;
+    }
+
+    if (mutedSince !== null && now - mutedSince >= MUTED_AFTER_MS) report('muted');
+    else if (now - lastLight >= BLACK_AFTER_MS) report('black');
+    else if (!still && now - lastChange >= FROZEN_AFTER_MS) report('frozen');
+    else report('live');
+  };
+
+  const onMute = () => { mutedSince = Date.now(); };
+  const onUnmute = () => { mutedSince = null; check(); };
+
+  track?.addEventListener('ended', check);
+  track?.addEventListener('mute', onMute);
+  track?.addEventListener('unmute', onUnmute);
+  const timer = window.setInterval(check, SAMPLE_INTERVAL_MS);
+
+  return () => {
+    clearInterval(timer);
+    track?.removeEventListener('ended', check);
+    track?.removeEventListener('mute', onMute);
+    track?.removeEventListener('unmute', onUnmute);
+    video.pause();
+    video.srcObject = null;
+  };
+};
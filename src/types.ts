@@ -4,12 +4,49 @@ export interface Point {
   y: number;
 }
 
-export interface DrawingPath {
+// Optional lifetime shared by every annotation kind. Expired annotations stop rendering and are pruned.
+export interface Expiring {
+  expiresAt?: number; // epoch ms
+}
+
+// Freehand stroke
+export interface DrawingPath extends Expiring {
+  id: string;
+  kind: 'path';
   points: Point[];
   color: string;
   width: number;
+  opacity?: number; // 0..1, defaults to 1
+  // Stylus pressure (0..1) per point, parallel to points. Absent for mouse and touch strokes.
+  pressure?: number[];
+}
+
+// Two-point shapes. start/end are the drag endpoints; for ellipses and rectangles they are opposite corners of the bounding box
+export interface ShapeDrawing extends Expiring {
+  id: string;
+  kind: 'arrow' | 'ellipse' | 'rect';
+  start: Point;
+  end: Point;
+  color: string;
+  width: number;
+  opacity?: number; // 0..1, defaults to 1
+}
+
+export interface TextLabel extends Expiring {
+  id: string;
+  kind: 'text';
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+  // Font size as a fraction of the rendered map height, so labels scale with the map
+  size: number;
 }
 
+// Everything that can be drawn on the map. Coordinates are normalized (0..1) to the crop region.
+// Like markers, every drawing has a unique id so it can be referred to while others come and go.
+export type Drawing = DrawingPath | ShapeDrawing | TextLabel;
+
 export interface CropRegion {
   x: number;
   y: number;
@@ -17,17 +54,137 @@ export interface CropRegion {
   height: number;
 }
 
+// How the map is displayed: mirrored first, then rotated clockwise. Annotations are always stored
+// unrotated, so plans stay valid whatever orientation they were drawn in.
+export interface MapOrientation {
+  rotation: 0 | 90 | 180 | 270;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+// Colour vision deficiency the map picture is remapped for ('none' leaves colours alone)
+export type CvdMode = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+// Picture adjustments for the mirrored map. brightness/contrast/saturation are factors (1 = unchanged),
+// sharpen is an unsharp-mask amount (0 = off). Like orientation they only change the display.
+export interface ImageFilters {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  sharpen: number;
+  cvd: CvdMode;
+}
+
+// Size of the captured frame in pixels
+export interface FrameSize {
+  w: number;
+  h: number;
+}
+
+// Extra HUD area (hero bar, objective timers) mirrored in its own panel next to the map.
+// The crop is stored as fractions (0..1) of the frame, like crop presets.
+export interface HudPanel {
+  id: string;
+  name: string;
+  crop: CropRegion;
+}
+
+// Named crop for one capture resolution. The crop is stored as fractions (0..1) of the frame,
+// so it survives small resolution changes and can be rescaled for other aspect ratios.
+export interface CropPreset {
+  id: string;
+  name: string;
+  frame: FrameSize; // resolution the preset was made for
+  crop: CropRegion; // fractions of frame
+  updatedAt: number; // epoch ms
+}
+
 export enum ToolType {
   PEN = 'PEN',
   ERASER = 'ERASER',
-  MARKER = 'MARKER'
+  MARKER = 'MARKER',
+  ARROW = 'ARROW',
+  ELLIPSE = 'ELLIPSE',
+  RECT = 'RECT',
+  TEXT = 'TEXT',
+  PING = 'PING',
+  SELECT = 'SELECT'
+}
+
+export type MarkerType = 'danger' | 'move' | 'ward' | 'objective' | 'retreat' | 'smoke';
+
+export interface Marker extends Expiring {
+  id: string;
+  x: number;
+  y: number;
+  type: MarkerType;
 }
 
-export interface Marker {
+// Short-lived "look here" ping. Pings are never part of a saved plan or the undo history.
+export interface Ping {
   id: string;
   x: number;
   y: number;
-  type: 'danger' | 'move' | 'ward';
+  color: string;
+  createdAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+}
+
+// Named group of annotations. Layers are stacked in array order, the last one drawn on top.
+export interface Layer {
+  id: string;
+  name: string;
+  drawings: Drawing[];
+  markers: Marker[];
+}
+
+// Display state of a layer. Kept outside AnnotationSet so hiding or locking a layer is not an undo step.
+export interface LayerView {
+  visible: boolean;
+  locked: boolean;
+}
+
+// Everything the user has placed on the map, tracked together for undo/redo
+export interface AnnotationSet {
+  layers: Layer[];
+}
+
+// Named snapshot of the annotations, stored in the local plan library
+export interface SavedPlan {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  annotations: AnnotationSet;
+  thumbnail: string; // JPEG data URL rendered from the map canvas
+}
+
+// One phase of a playbook, e.g. "8:00 collapse mid", with its own annotations
+export interface PlaybookStep {
+  id: string;
+  label: string; // short timeline label, usually a game time
+  note: string;
+  annotations: AnnotationSet;
+}
+
+// Ordered sequence of steps describing a rotation, stored in the local playbook library
+export interface Playbook {
+  id: string;
+  name: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+  steps: PlaybookStep[];
+}
+
+// Which service reads the minimap for the AI button, and how to reach it
+export type AnalyzerProvider = 'gemini' | 'openai' | 'mock';
+
+export interface AnalyzerSettings {
+  provider: AnalyzerProvider;
+  // An empty key falls back to the API_KEY the app was built with
+  gemini: { apiKey: string; model: string };
+  // Any OpenAI-compatible chat completions endpoint with image input, hosted or local
+  openai: { baseUrl: string; apiKey: string; model: string };
 }
 
 // Add Overwolf global types for TS
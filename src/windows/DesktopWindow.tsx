@@ -1,40 +1,154 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { analyzeMapSnapshot, TacticalAlert } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { CaptureError, CaptureSession, CaptureSource, fileSource, isOverwolf, manualCaptureSource, overwolfMonitorSource } from '../services/captureSources';
+import { MAX_RECONNECT_ATTEMPTS, StreamHealth, needsRestart, restartDelay, watchStreamHealth } from '../services/streamHealth';
+import { TacticalAlert } from '../services/mapAnalyzer';
+import { createAnalyzer, isAnalyzerConfigured } from '../services/analyzers';
 import MapCanvas from '../components/MapCanvas';
-import { PenIcon, TrashIcon, MonitorIcon, BrainIcon, VolumeIcon, VolumeXIcon, XIcon } from '../components/IconSymbols';
-import { CropRegion, DrawingPath, Marker, ToolType } from '../types';
+import MarkerPalette from '../components/MarkerPalette';
+import LayerPanel from '../components/LayerPanel';
+import PlanLibrary from '../components/PlanLibrary';
+import PlaybookLibrary from '../components/PlaybookLibrary';
+import PlaybookTimeline from '../components/PlaybookTimeline';
+import CapturePanel from '../components/CapturePanel';
+import CropLoupe from '../components/CropLoupe';
+import DisplayPanel from '../components/DisplayPanel';
+import AnalyzerSettingsPanel from '../components/AnalyzerSettingsPanel';
+import { PointerIcon, PenIcon, EraserIcon, ArrowIcon, CircleIcon, SquareIcon, TextIcon, PingIcon, TimerIcon, LayersIcon, FolderIcon, BookIcon, UploadIcon, DownloadIcon, TrashIcon, UndoIcon, RedoIcon, MonitorIcon, RotateIcon, ContrastIcon, SettingsIcon, BrainIcon, VolumeIcon, VolumeXIcon, XIcon } from '../components/IconSymbols';
+import { AnnotationSet, CropPreset, CropRegion, Drawing, HudPanel, ImageFilters, LayerView, Marker, MarkerType, MapOrientation, Ping, Playbook, Point, SavedPlan, ToolType } from '../types';
+import { MARKER_TYPES } from '../lib/markers';
 import { kWindowNames } from '../consts';
 import { OWWindow } from '../lib/overwolf';
+import { HistoryState, useHistory } from '../lib/history';
+import { pruneExpired } from '../lib/expiry';
+import { createThumbnail } from '../lib/thumbnail';
+import { savePlan, savePlaybook } from '../services/planStorage';
+import { PLAYBOOK_FORMAT, PlanFormatError, parseSharedFile, serializePlan, serializePlaybook } from '../lib/planFormat';
+import { createPlaybook, insertStepAfter, removeStep, updateStep } from '../lib/playbooks';
+import { downloadFile, toFilename } from '../lib/download';
+import { MapExportOptions, renderMapPng, renderMapSvg, snapshotFrame } from '../lib/mapExport';
+import { fitRect, orientedAspect } from '../lib/geometry';
+import { FPS_CAP_OPTIONS, loadAnalyzerSettings, loadFpsCap, loadRestartOnStall, storeAnalyzerSettings, storeFpsCap, storeRestartOnStall } from '../lib/preferences';
+import { isNeutral, loadImageFilters, storeImageFilters } from '../lib/imageFilters';
+import { annotationPalette, matchPaletteColor } from '../lib/palettes';
+import { flipHorizontal, flipVertical, isFlippedHorizontally, isFlippedVertically, loadOrientation, rotateClockwise, storeOrientation } from '../lib/mapOrientation';
+import { createPreset, loadPresets, pickPreset, presetCrop, recordCrop, rescaleCrop, resolutionLabel, storePresets, toFractions, toPixels } from '../lib/cropPresets';
+import { createPanel, loadPanels, storePanels, updatePanel } from '../lib/capturePanels';
+import { CROP_HANDLES, CropHandle, NUDGE_STEP, NUDGE_STEP_LARGE, clampCrop, moveCrop, resizeCrop, withAspect } from '../lib/cropEdit';
+import { MIN_CONFIDENCE, MinimapGuess, locateMinimap } from '../lib/minimapLocator';
+import { BUNDLED_REFERENCE_MAP, imageCrop, loadImage, loadImageFile } from '../lib/referenceMap';
+import { DEFAULT_ACTIVE_LAYER_ID, DEFAULT_LAYER_VIEW, clearLayer, createDefaultAnnotations, createLayer, moveLayer, updateLayer } from '../lib/layers';
+import { createId } from '../lib/ids';
 
 const INITIAL_CROP: CropRegion = { x: 0, y: 0, width: 300, height: 300 };
+// Assumed capture size until a stream reports its own
+const INITIAL_FRAME = { w: 1920, h: 1080 };
+// Lifetimes offered for pings and temporary annotations, in seconds
+const TTL_OPTIONS = [3, 5, 10, 30];
+const WIDTH_OPTIONS = [2, 4, 8];
+const OPACITY_OPTIONS = [1, 0.6, 0.3];
+const HANDLE_CURSORS: Record<CropHandle, string> = {
+  n: 'cursor-ns-resize', s: 'cursor-ns-resize', e: 'cursor-ew-resize', w: 'cursor-ew-resize',
+  nw: 'cursor-nwse-resize', se: 'cursor-nwse-resize', ne: 'cursor-nesw-resize', sw: 'cursor-nesw-resize'
+};
+// A reconnected stream has to stay live this long before the backoff starts over
+const RECONNECT_RESET_MS = 30000;
+const HEALTH_LABELS: Record<StreamHealth, string> = { live: 'LIVE', muted: 'PAUSED', frozen: 'FROZEN', black: 'NO SIGNAL', ended: 'ENDED' };
+// Width limits of the HUD panel column, in pixels
+const MIN_PANEL_COLUMN = 120;
+const MAX_PANEL_COLUMN = 480;
 
 const DesktopWindow = () => {
   const [stream, setStream] = useState<MediaStream | null>(null);
+  // Running capture, stopped when it is replaced or reset
+  const captureRef = useRef<CaptureSession | null>(null);
+  // Where the running capture came from, so a lost stream can be started again
+  const captureSourceRef = useRef<CaptureSource | null>(null);
+  const [health, setHealth] = useState<StreamHealth>('live');
+  const reconnectAttemptRef = useRef(0);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  // Also restart the source when the picture stays frozen or black
+  const [restartOnStall, setRestartOnStall] = useState(loadRestartOnStall);
+  const [videoDim, setVideoDim] = useState(INITIAL_FRAME);
+  // Saved crops per capture resolution; edits go to the active one
+  const [cropPresets, setCropPresets] = useState<CropPreset[]>(loadPresets);
+  const [activePresetId, setActivePresetId] = useState<string | null>(() => pickPreset(cropPresets, INITIAL_FRAME)?.id ?? null);
   const [cropRegion, setCropRegion] = useState<CropRegion>(() => {
-    try { return JSON.parse(localStorage.getItem('deadlock-map-crop') || 'null') || INITIAL_CROP; } 
-    catch { return INITIAL_CROP; }
+    const preset = cropPresets.find(p => p.id === activePresetId);
+    return preset ? presetCrop(preset, INITIAL_FRAME) : INITIAL_CROP;
   });
+  const [presetName, setPresetName] = useState('');
+  // Auto-find minimap: the proposed crop waiting for confirmation, or why there is none
+  const [minimapGuess, setMinimapGuess] = useState<MinimapGuess | null>(null);
+  const [locatorMessage, setLocatorMessage] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const frameRef = useRef(videoDim);
+  // Extra HUD panels from the same stream. Only the main map takes annotations.
+  const [panels, setPanels] = useState<HudPanel[]>(loadPanels);
+  // Map display orientation, kept across sessions so each team side can keep its usual view
+  const [orientation, setOrientation] = useState<MapOrientation>(loadOrientation);
+  // Redraw limit for the map, to leave CPU to the game
+  const [fpsCap, setFpsCap] = useState(loadFpsCap);
+  // Picture adjustments for the map; the CVD mode also picks the drawing palette
+  const [imageFilters, setImageFilters] = useState<ImageFilters>(loadImageFilters);
+  const palette = annotationPalette(imageFilters.cvd);
+  // Region the setup box is editing: 'map' or a panel id
+  const [editTarget, setEditTarget] = useState<string>('map');
+  const [editingPanelName, setEditingPanelName] = useState<string | null>(null);
+  const [panelColumnWidth, setPanelColumnWidth] = useState(200);
+
+  // Static map image shown instead of the stream, for planning between matches
+  const [referenceImage, setReferenceImage] = useState<HTMLImageElement | null>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
 
   const [isSetupMode, setIsSetupMode] = useState(true);
   const [statusMessage, setStatusMessage] = useState("Ready");
   
   // Tools
-  const [drawings, setDrawings] = useState<DrawingPath[]>([]);
-  const [markers, setMarkers] = useState<Marker[]>([]);
+  const history = useHistory<AnnotationSet>(createDefaultAnnotations());
+  const { layers } = history.present;
+  const [activeLayerId, setActiveLayerId] = useState(DEFAULT_ACTIVE_LAYER_ID);
+  const [layerViews, setLayerViews] = useState<Record<string, LayerView>>({});
+  // Floating panel shown over the map (only one at a time)
+  const [openPanel, setOpenPanel] = useState<'layers' | 'plans' | 'playbooks' | 'display' | 'analyzer' | null>(null);
+  // Open playbook. While open, the history holds the current step's annotations; the copy
+  // in the playbook is refreshed whenever the step changes or the playbook is saved.
+  const [playbook, setPlaybook] = useState<Playbook | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  // Last saved version of the open playbook; null while it is not in the library (e.g. just imported)
+  const [savedPlaybook, setSavedPlaybook] = useState<Playbook | null>(null);
+  // The board (annotations and their undo history) set aside while a playbook is open, restored on close
+  const boardRef = useRef<HistoryState<AnnotationSet> | null>(null);
+  // Short-lived message over the map (import errors, confirmations)
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Undo can remove the active layer (e.g. undoing "add layer"); fall back to the top one
+  const activeLayer = layers.find(l => l.id === activeLayerId) || layers[layers.length - 1];
+  const activeView = layerViews[activeLayer.id] || DEFAULT_LAYER_VIEW;
+  const visibleLayers = layers.filter(l => (layerViews[l.id] || DEFAULT_LAYER_VIEW).visible);
   const [activeTool, setActiveTool] = useState<ToolType>(ToolType.PEN);
-  const [selectedColor, setSelectedColor] = useState<string>('#ef4444');
+  const [selectedColor, setSelectedColor] = useState<string>(() => annotationPalette(loadImageFilters().cvd)[0]);
+  const [strokeWidth, setStrokeWidth] = useState(WIDTH_OPTIONS[1]);
+  const [strokeOpacity, setStrokeOpacity] = useState(OPACITY_OPTIONS[0]);
+  const [selectedMarkerType, setSelectedMarkerType] = useState<MarkerType>('danger');
+  const [pings, setPings] = useState<Ping[]>([]);
+  const [ttlSeconds, setTtlSeconds] = useState(TTL_OPTIONS[1]);
+  // When on, new drawings and markers expire after ttlSeconds like pings do
+  const [isTemporary, setIsTemporary] = useState(false);
 
   // AI
   const [latestAlert, setLatestAlert] = useState<TacticalAlert | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
-  const hasApiKey = !!process.env.API_KEY;
+  const [analyzerSettings, setAnalyzerSettings] = useState(loadAnalyzerSettings);
+  const analyzer = useMemo(() => createAnalyzer(analyzerSettings), [analyzerSettings]);
+  const hasAnalyzer = isAnalyzerConfigured(analyzerSettings);
   
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
   const setupVideoRef = useRef<HTMLVideoElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
-  const [videoDim, setVideoDim] = useState({ w: 1920, h: 1080 });
 
   // Window Instance
   const windowInstance = useRef(new OWWindow(kWindowNames.desktop));
@@ -42,12 +156,318 @@ const DesktopWindow = () => {
   // Interaction State
   const [interaction, setInteraction] = useState<{
     type: 'idle' | 'moving' | 'resizing';
-    handle?: 'nw' | 'ne' | 'sw' | 'se';
+    handle?: CropHandle;
     startMouse: { x: number; y: number };
     startCrop: CropRegion;
   }>({ type: 'idle', startMouse: { x: 0, y: 0 }, startCrop: INITIAL_CROP });
+  // Frame point under the pointer while dragging, magnified by the loupe
+  const [loupeFocus, setLoupeFocus] = useState<Point | null>(null);
+  // Lock the crop's aspect ratio: square for the map, the current shape for HUD panels
+  const [aspectLocked, setAspectLocked] = useState(false);
+
+  // New capture resolution: switch to the best preset for it, or rescale the current crop
+  useEffect(() => {
+    const previous = frameRef.current;
+    frameRef.current = videoDim;
+    if (previous.w === videoDim.w && previous.h === videoDim.h) return;
+    const preset = pickPreset(cropPresets, videoDim);
+    setActivePresetId(preset?.id ?? null);
+    setCropRegion(prev => preset ? presetCrop(preset, videoDim) : rescaleCrop(prev, previous, videoDim));
+  }, [videoDim]);
+
+  // Remember a crop edit for the current resolution
+  const rememberCrop = (crop: CropRegion) => {
+    const { presets, active } = recordCrop(cropPresets, activePresetId, crop, videoDim);
+    if (presets === cropPresets) return;
+    setCropPresets(presets);
+    setActivePresetId(active.id);
+    storePresets(presets);
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = cropPresets.find(p => p.id === id);
+    if (!preset) return;
+    setActivePresetId(id);
+    setCropRegion(presetCrop(preset, videoDim));
+  };
+
+  const saveNamedPreset = () => {
+    const preset = createPreset(presetName.trim() || resolutionLabel(videoDim), cropRegion, videoDim);
+    const presets = [...cropPresets, preset];
+    setCropPresets(presets);
+    setActivePresetId(preset.id);
+    storePresets(presets);
+    setPresetName('');
+  };
+
+  const autoFindMinimap = async () => {
+    const video = setupVideoRef.current;
+    if (!video || video.readyState < 2) {
+        setLocatorMessage("No frame yet - try again in a moment");
+        return;
+    }
+    setIsLocating(true);
+    setMinimapGuess(null);
+    setLocatorMessage(null);
+    // Let the button show its busy state before the (synchronous) analysis runs
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const guess = locateMinimap(video, videoDim);
+    setIsLocating(false);
+    if (guess && guess.confidence >= MIN_CONFIDENCE) {
+        setMinimapGuess(guess);
+    } else {
+        setLocatorMessage("Minimap not found - adjust the box manually");
+    }
+  };
+
+  const acceptMinimapGuess = () => {
+    if (!minimapGuess) return;
+    setCropRegion(minimapGuess.crop);
+    rememberCrop(minimapGuess.crop);
+    setMinimapGuess(null);
+  };
+
+  const deletePreset = (id: string) => {
+    const presets = cropPresets.filter(p => p.id !== id);
+    setCropPresets(presets);
+    if (id === activePresetId) setActivePresetId(null);
+    storePresets(presets);
+  };
+
+  // Adapt the history to the per-array setters MapCanvas expects; edits go to the active layer
+  const editLayerId = activeLayer.id;
+  const setDrawings: React.Dispatch<React.SetStateAction<Drawing[]>> = useCallback(update => {
+      history.set(prev => updateLayer(prev, editLayerId, layer => {
+          const next = typeof update === 'function' ? update(layer.drawings) : update;
+          return next === layer.drawings ? layer : { ...layer, drawings: next };
+      }));
+  }, [history.set, editLayerId]);
+
+  const setMarkers: React.Dispatch<React.SetStateAction<Marker[]>> = useCallback(update => {
+      history.set(prev => updateLayer(prev, editLayerId, layer => {
+          const next = typeof update === 'function' ? update(layer.markers) : update;
+          return next === layer.markers ? layer : { ...layer, markers: next };
+      }));
+  }, [history.set, editLayerId]);
+
+  const updateLayerView = (id: string, change: Partial<LayerView>) => {
+      setLayerViews(prev => ({ ...prev, [id]: { ...(prev[id] || DEFAULT_LAYER_VIEW), ...change } }));
+  };
+
+  const addLayer = () => {
+      const layer = createLayer(`Layer ${layers.length + 1}`);
+      history.set(prev => ({ ...prev, layers: [...prev.layers, layer] }));
+      setActiveLayerId(layer.id);
+  };
+
+  const removeLayer = (id: string) => {
+      history.set(prev => prev.layers.length > 1 ? { ...prev, layers: prev.layers.filter(l => l.id !== id) } : prev);
+  };
+
+  // Prune expired pings and annotations. Pruning is not an undoable edit.
+  useEffect(() => {
+      const id = setInterval(() => {
+          const now = Date.now();
+          setPings(prev => prev.some(p => p.expiresAt <= now) ? prev.filter(p => p.expiresAt > now) : prev);
+          history.replace(prev => pruneExpired(prev, now));
+      }, 500);
+      return () => clearInterval(id);
+  }, [history.replace]);
+
+  const togglePanel = (panel: 'layers' | 'plans' | 'playbooks' | 'display' | 'analyzer') => setOpenPanel(prev => prev === panel ? null : panel);
+
+  // Expired (temporary) annotations are left out of saved plans
+  const handleSavePlan = async (name: string) => {
+      const now = Date.now();
+      const plan: SavedPlan = {
+          id: createId('plan'),
+          name,
+          createdAt: now,
+          updatedAt: now,
+          annotations: pruneExpired(history.present, now),
+          thumbnail: canvasRef.current ? createThumbnail(canvasRef.current) : ''
+      };
+      await savePlan(plan);
+  };
+
+  // Loading replaces the current annotations as one undoable step
+  const handleLoadPlan = (plan: SavedPlan) => {
+      history.set(plan.annotations);
+      setOpenPanel(null);
+  };
+
+  // The open playbook with the live annotations written back into the current step
+  const currentPlaybook = (): Playbook | null => {
+      if (!playbook) return null;
+      const annotations = pruneExpired(history.present, Date.now());
+      return updateStep(playbook, stepIndex, step => step.annotations === annotations ? step : { ...step, annotations });
+  };
+
+  // Asks before dropping unsaved steps, labels or notes. Returns false if the playbook should stay open.
+  const confirmLeavePlaybook = (): boolean => {
+      if (!playbook || currentPlaybook() === savedPlaybook) return true;
+      return window.confirm(`"${playbook.name}" has unsaved changes. Discard them?`);
+  };
+
+  // Each step has its own undo history
+  const showStep = (next: Playbook, index: number) => {
+      setPlaybook(next);
+      setStepIndex(index);
+      history.reset(next.steps[index].annotations);
+  };
+
+  // Callers confirm leaving the current playbook first
+  const openPlaybook = (next: Playbook, saved: Playbook | null = next) => {
+      if (!playbook) boardRef.current = history.snapshot;
+      setSavedPlaybook(saved);
+      showStep(next, 0);
+      setOpenPanel(null);
+  };
 
-  useEffect(() => { localStorage.setItem('deadlock-map-crop', JSON.stringify(cropRegion)); }, [cropRegion]);
+  const handleOpenPlaybook = (next: Playbook) => {
+      if (confirmLeavePlaybook()) openPlaybook(next);
+  };
+
+  const handleClosePlaybook = () => {
+      if (!confirmLeavePlaybook()) return;
+      if (boardRef.current) history.restore(boardRef.current);
+      boardRef.current = null;
+      setPlaybook(null);
+      setSavedPlaybook(null);
+  };
+
+  const handleCreatePlaybook = async (name: string) => {
+      if (!confirmLeavePlaybook()) return;
+      const next = createPlaybook(name, pruneExpired(history.present, Date.now()));
+      await savePlaybook(next);
+      openPlaybook(next);
+  };
+
+  const handleSelectStep = (index: number) => {
+      const current = currentPlaybook();
+      if (!current || index < 0 || index >= current.steps.length || index === stepIndex) return;
+      showStep(current, index);
+  };
+
+  const handleAddStep = () => {
+      const current = currentPlaybook();
+      if (!current) return;
+      showStep(insertStepAfter(current, stepIndex, `Step ${current.steps.length + 1}`), stepIndex + 1);
+  };
+
+  const handleRemoveStep = () => {
+      if (!playbook || playbook.steps.length <= 1) return;
+      const next = removeStep(playbook, stepIndex);
+      showStep(next, Math.min(stepIndex, next.steps.length - 1));
+  };
+
+  const handleSavePlaybook = async () => {
+      const current = currentPlaybook();
+      if (!current) return;
+      const saved = { ...current, updatedAt: Date.now() };
+      try {
+          await savePlaybook(saved);
+          setPlaybook(saved);
+          setSavedPlaybook(saved);
+          showNotice(`Saved "${saved.name}"`);
+      } catch (err) {
+          console.error("Playbook save failed:", err);
+          showNotice("Could not save playbook", true);
+      }
+  };
+
+  const handleExportPlaybook = () => {
+      const current = currentPlaybook();
+      if (!current) return;
+      const json = serializePlaybook(current.name, current.steps, { ...cropRegion, frameWidth: videoDim.w, frameHeight: videoDim.h });
+      downloadFile(toFilename(current.name, 'json'), json, 'application/json');
+  };
+
+  const showNotice = (text: string, isError = false) => {
+      setNotice({ text, isError });
+      setTimeout(() => setNotice(prev => prev?.text === text ? null : prev), 5000);
+  };
+
+  const handleExportPlan = () => {
+      const name = `Plan ${new Date().toLocaleDateString()}`;
+      const json = serializePlan(name, pruneExpired(history.present, Date.now()), { ...cropRegion, frameWidth: videoDim.w, frameHeight: videoDim.h });
+      downloadFile(toFilename(name, 'json'), json, 'application/json');
+  };
+
+  // Image exports use the map's on-screen size so annotation line widths look the same as in the app
+  const getExportOptions = (): MapExportOptions => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      const crop = referenceImage ? imageCrop(referenceImage) : cropRegion;
+      const fit = fitRect(orientedAspect(crop.width / crop.height, orientation), canvas?.width || crop.width, canvas?.height || crop.height);
+      return {
+          frame: referenceImage || (video && video.readyState >= 2 ? video : null),
+          crop,
+          layers: visibleLayers,
+          size: { w: fit.w, h: fit.h },
+          orientation
+      };
+  };
+
+  const handleExportImage = async (format: 'png' | 'svg') => {
+      const name = `Map ${new Date().toLocaleDateString()}`;
+      try {
+          if (format === 'png') {
+              downloadFile(toFilename(name, 'png'), await renderMapPng(getExportOptions()));
+          } else {
+              downloadFile(toFilename(name, 'svg'), renderMapSvg(getExportOptions()), 'image/svg+xml');
+          }
+      } catch (err) {
+          console.error("Image export failed:", err);
+          showNotice("Image export failed", true);
+      }
+  };
+
+  const handleImportPlan = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // allow re-importing the same file
+      if (!file) return;
+      try {
+          const shared = parseSharedFile(await file.text());
+          if (shared.format === PLAYBOOK_FORMAT) {
+              // Imported playbooks open unsaved; SAVE adds them to the library
+              if (!confirmLeavePlaybook()) return;
+              const now = Date.now();
+              openPlaybook({ id: createId('playbook'), name: shared.name, createdAt: now, updatedAt: now, steps: shared.steps }, null);
+          } else {
+              history.set(shared.annotations);
+          }
+          showNotice(`Imported "${shared.name}"`);
+      } catch (err) {
+          if (err instanceof PlanFormatError) {
+              showNotice(`Import failed: ${err.message}`, true);
+          } else {
+              console.error("Plan import failed:", err);
+              showNotice("Import failed: could not read file", true);
+          }
+      }
+  };
+
+  // Trash clears every layer except locked ones
+  const clearAnnotations = () => history.set(prev => prev.layers.reduce(
+      (set, layer) => (layerViews[layer.id] || DEFAULT_LAYER_VIEW).locked ? set : updateLayer(set, layer.id, clearLayer),
+      prev
+  ));
+
+  // Undo: Ctrl+Z, Redo: Ctrl+Shift+Z or Ctrl+Y
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); history.undo(); }
+          else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); history.redo(); }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [history.undo, history.redo]);
 
   // Init Window Drag
   useEffect(() => {
@@ -58,13 +478,13 @@ const DesktopWindow = () => {
 
   // Init - Try to auto-detect
   useEffect(() => {
-    if (typeof window.overwolf === 'undefined') return;
+    if (!isOverwolf()) return;
 
     const autoConnect = async () => {
         const gameInfo = await new Promise<any>(r => overwolf.games.getRunningGameInfo(r));
         if (gameInfo && gameInfo.isRunning && Math.floor(gameInfo.id / 10) === 2420) { 
-             setStatusMessage("Deadlock Detected");
-             detectAndCapture(gameInfo);
+             setStatusMessage("Syncing...");
+             startCapture(overwolfMonitorSource(gameInfo));
         } else {
              setStatusMessage("Game Not Detected (Use Manual)");
         }
@@ -72,75 +492,240 @@ const DesktopWindow = () => {
     autoConnect();
   }, []);
 
-  const detectAndCapture = async (gameInfo: any) => {
-    setStatusMessage("Syncing...");
-    
-    window.overwolf.utils.getMonitorsList(async (res: any) => {
-        if (!res.monitors || res.monitors.length === 0) return;
-
-        const cx = (gameInfo.logicalLeft || 0) + (gameInfo.width || 1920)/2;
-        const cy = (gameInfo.logicalTop || 0) + (gameInfo.height || 1080)/2;
-        const monitor = res.monitors.find((m: any) => cx >= m.x && cx <= m.x+m.width && cy >= m.y && cy <= m.y+m.height) || res.monitors[0];
-
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({
-                audio: false,
-                video: {
-                    mandatory: {
-                        chromeMediaSource: 'desktop',
-                        chromeMediaSourceId: `screen:${monitor.id}`
-                    }
-                }
-            } as any);
-
-            setStream(stream);
-            setVideoDim({ w: monitor.width, h: monitor.height });
-            setIsSetupMode(true);
-            setStatusMessage("Active");
-        } catch (e) {
-            console.error(e);
-            setStatusMessage("Auto-Sync Failed");
-        }
-    });
+  // Release the capture (tracks, file playback) when the window goes away
+  useEffect(() => () => captureRef.current?.stop(), []);
+
+  const stopCapture = () => {
+    captureRef.current?.stop();
+    captureRef.current = null;
+    captureSourceRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setStream(null);
   };
 
-  const manualCapture = async () => {
+  // Swap in a new session, stopping the one it replaces
+  const openSession = (session: CaptureSession, source: CaptureSource) => {
+    captureRef.current?.stop();
+    captureRef.current = session;
+    captureSourceRef.current = source;
+    setStream(session.stream);
+    setVideoDim(session.frame);
+  };
+
+  const startCapture = async (source: CaptureSource) => {
     try {
-        const ms = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
-        // @ts-ignore
-        const s = ms.getVideoTracks()[0].getSettings();
-        setStream(ms);
-        setVideoDim({ w: s.width || 1920, h: s.height || 1080 });
+        const session = await source.start();
+        openSession(session, source);
+        reconnectAttemptRef.current = 0;
+        setReferenceImage(null);
         setIsSetupMode(true);
-    } catch(e) { 
-        setStatusMessage("Selection Cancelled"); 
+        setStatusMessage("Active");
+    } catch (e) {
+        if (!(e instanceof CaptureError)) console.error(e);
+        setStatusMessage(e instanceof CaptureError ? e.message : "Capture Failed");
     }
-  }
+  };
+
+  // Start the last source again in place; the crop and annotations stay as they are
+  const reconnect = async () => {
+    const source = captureSourceRef.current;
+    if (!source) return;
+    setIsReconnecting(true);
+    try {
+        const session = await source.start();
+        // Reset or replaced while the source was starting
+        if (captureSourceRef.current !== source) return session.stop();
+        openSession(session, source);
+    } catch (e) {
+        if (!(e instanceof CaptureError)) console.error(e);
+    } finally {
+        setIsReconnecting(false);
+    }
+  };
+
+  // Watch the running stream for ending, stalling, freezing or going black
+  useEffect(() => {
+      setHealth('live');
+      if (!stream) return;
+      return watchStreamHealth(stream, setHealth, { still: captureRef.current?.still });
+  }, [stream]);
+
+  // Reconnect a lost stream with backoff. Sources that need a picker wait for a click on the status instead.
+  // Frozen and black pictures only restart when that is switched on, and after a longer wait.
+  // A failed attempt clears isReconnecting, which schedules the next one.
+  useEffect(() => {
+      if (!stream || isReconnecting) return;
+      if (health === 'live') {
+          const timer = window.setTimeout(() => { reconnectAttemptRef.current = 0; }, RECONNECT_RESET_MS);
+          return () => clearTimeout(timer);
+      }
+      const source = captureSourceRef.current;
+      if (!needsRestart(health, restartOnStall) || !source?.autoRestart || reconnectAttemptRef.current >= MAX_RECONNECT_ATTEMPTS) return;
+
+      const timer = window.setTimeout(() => {
+          reconnectAttemptRef.current++;
+          reconnect();
+      }, restartDelay(health, reconnectAttemptRef.current));
+      return () => clearTimeout(timer);
+  }, [stream, health, isReconnecting, restartOnStall]);
+
+  // Manual reconnect from the header status; also the only way back for picker-based sources
+  const handleReconnectClick = () => {
+    reconnectAttemptRef.current = 0;
+    reconnect();
+  };
+
+  // A recorded match or screenshot stands in for the game, e.g. to work on the map without playing
+  const handleRecordingFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) startCapture(fileSource(file));
+  };
+
+  const openReferenceMap = async () => {
+    try {
+        setReferenceImage(await loadImage(BUNDLED_REFERENCE_MAP));
+    } catch (e) {
+        console.error(e);
+        setStatusMessage("Reference Map Unavailable");
+    }
+  };
+
+  const handleReferenceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        setReferenceImage(await loadImageFile(file));
+    } catch (err) {
+        console.error(err);
+        setStatusMessage("Could Not Read Image");
+    }
+  };
 
   const handleAnalyze = async () => {
-    if (!canvasRef.current || !hasApiKey) return;
+    if (!hasAnalyzer) return;
+    // The raw frame, not the map canvas: that shows the zoomed, rotated and filtered view with overlays
+    const { frame, crop } = getExportOptions();
+    const snapshot = frame && snapshotFrame(frame, crop);
+    if (!snapshot) return;
     setIsAnalyzing(true);
-    const result = await analyzeMapSnapshot(canvasRef.current.toDataURL('image/png'));
-    if (result) {
-      setLatestAlert(result);
-      if (result.voice && !isMuted) {
-          window.speechSynthesis.cancel();
-          const u = new SpeechSynthesisUtterance(result.voice);
-          u.rate = 1.1;
-          window.speechSynthesis.speak(u);
+    try {
+      const result = await analyzer.analyze(snapshot);
+      if (result) {
+        setLatestAlert(result);
+        if (result.voice && !isMuted) {
+            window.speechSynthesis.cancel();
+            const u = new SpeechSynthesisUtterance(result.voice);
+            u.rate = 1.1;
+            window.speechSynthesis.speak(u);
+        }
+        setTimeout(() => setLatestAlert(null), 5000);
       }
-      setTimeout(() => setLatestAlert(null), 5000);
+    } finally {
+      setIsAnalyzing(false);
     }
-    setIsAnalyzing(false);
   };
 
   useEffect(() => {
     if (isSetupMode && setupVideoRef.current && stream) setupVideoRef.current.srcObject = stream;
   }, [isSetupMode, stream]);
 
+  // Setup box edits either the map crop or one HUD panel's crop (panels are stored as fractions)
+  const editedPanel = panels.find(p => p.id === editTarget);
+  const editedCrop = editedPanel ? toPixels(editedPanel.crop, videoDim) : cropRegion;
+  const setEditedCrop = (crop: CropRegion) => {
+      if (editedPanel) setPanels(prev => updatePanel(prev, editedPanel.id, { crop: toFractions(crop, videoDim) }));
+      else setCropRegion(crop);
+  };
+
+  useEffect(() => { storePanels(panels); }, [panels]);
+
+  useEffect(() => { storeOrientation(orientation); }, [orientation]);
+
+  useEffect(() => { storeFpsCap(fpsCap); }, [fpsCap]);
+  useEffect(() => { storeRestartOnStall(restartOnStall); }, [restartOnStall]);
+
+  useEffect(() => { storeImageFilters(imageFilters); }, [imageFilters]);
+
+  useEffect(() => { storeAnalyzerSettings(analyzerSettings); }, [analyzerSettings]);
+
+  // Keep the same palette slot when the palette switches, so red becomes its colour-blind safe stand-in
+  useEffect(() => { setSelectedColor(prev => matchPaletteColor(prev, palette)); }, [palette]);
+
+  // HUD panels can be small (objective timers)
+  const minCropSize = editedPanel ? 16 : 50;
+  const lockedAspect = (crop: CropRegion) => aspectLocked ? (editedPanel ? crop.width / crop.height : 1) : null;
+
+  // Crop edits from the keyboard and numeric fields; the map crop is also saved to its preset
+  const commitEditedCrop = (crop: CropRegion) => {
+      setEditedCrop(crop);
+      if (!editedPanel && stream) rememberCrop(crop);
+  };
+
+  const handleCropField = (key: keyof CropRegion, value: number) => {
+      if (!Number.isFinite(value)) return;
+      const next = { ...editedCrop, [key]: value };
+      const aspect = lockedAspect(editedCrop);
+      if (aspect && key === 'width') next.height = value / aspect;
+      if (aspect && key === 'height') next.width = value * aspect;
+      commitEditedCrop(clampCrop(next, videoDim, minCropSize));
+  };
+
+  const toggleAspectLock = () => {
+      // Locking the map squares it up right away
+      if (!aspectLocked && !editedPanel) commitEditedCrop(withAspect(editedCrop, 1, videoDim));
+      setAspectLocked(!aspectLocked);
+  };
+
+  // Arrow keys nudge the crop box (Shift for larger steps)
+  useEffect(() => {
+      if (!isSetupMode || !stream || referenceImage) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+          const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+          const delta = { ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] }[e.key];
+          if (!delta) return;
+          e.preventDefault();
+          commitEditedCrop(moveCrop(editedCrop, delta[0], delta[1], videoDim));
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const addPanel = () => {
+      const panel = createPanel(`Panel ${panels.length + 1}`);
+      setPanels(prev => [...prev, panel]);
+      setEditTarget(panel.id);
+  };
+
+  const removePanel = (id: string) => {
+      setPanels(prev => prev.filter(p => p.id !== id));
+      if (editTarget === id) setEditTarget('map');
+  };
+
+  const renamePanel = (id: string, name: string) => {
+      setEditingPanelName(null);
+      if (name) setPanels(prev => updatePanel(prev, id, { name }));
+  };
+
+  // Drag the divider left of the panel column to resize it
+  const handleColumnResize = (e: React.PointerEvent) => {
+      e.preventDefault();
+      const startX = e.clientX;
+      const startWidth = panelColumnWidth;
+      const move = (ev: PointerEvent) => {
+          setPanelColumnWidth(Math.max(MIN_PANEL_COLUMN, Math.min(MAX_PANEL_COLUMN, startWidth + startX - ev.clientX)));
+      };
+      const up = () => { window.removeEventListener('pointermove', move); window.removeEventListener('pointerup', up); };
+      window.addEventListener('pointermove', move);
+      window.addEventListener('pointerup', up);
+  };
+
   // Interaction Logic
-  const handleBoxDown = (e: React.MouseEvent) => { e.preventDefault(); setInteraction({type: 'moving', startMouse: {x:e.clientX, y:e.clientY}, startCrop: {...cropRegion}}); };
-  const handleHandleDown = (h: any) => (e: React.MouseEvent) => { e.preventDefault(); e.stopPropagation(); setInteraction({type: 'resizing', handle: h, startMouse: {x:e.clientX, y:e.clientY}, startCrop: {...cropRegion}}); };
+  const handleBoxDown = (e: React.MouseEvent) => { e.preventDefault(); setInteraction({type: 'moving', startMouse: {x:e.clientX, y:e.clientY}, startCrop: {...editedCrop}}); };
+  const handleHandleDown = (h: CropHandle) => (e: React.MouseEvent) => { e.preventDefault(); e.stopPropagation(); setInteraction({type: 'resizing', handle: h, startMouse: {x:e.clientX, y:e.clientY}, startCrop: {...editedCrop}}); };
   
   useEffect(() => {
       const move = (e: MouseEvent) => {
@@ -150,34 +735,47 @@ const DesktopWindow = () => {
           const sy = videoDim.h / r.height;
           const dx = (e.clientX - interaction.startMouse.x) * sx;
           const dy = (e.clientY - interaction.startMouse.y) * sy;
-          let c = { ...interaction.startCrop };
-          
+          const start = interaction.startCrop;
+
           if (interaction.type === 'moving') {
-             c.x = Math.max(0, Math.min(c.x + dx, videoDim.w - c.width));
-             c.y = Math.max(0, Math.min(c.y + dy, videoDim.h - c.height));
+             setEditedCrop(moveCrop(start, dx, dy, videoDim));
           } else if (interaction.type === 'resizing' && interaction.handle) {
-             const min = 50;
-             if (interaction.handle.includes('e')) c.width = Math.max(min, interaction.startCrop.width + dx);
-             if (interaction.handle.includes('s')) c.height = Math.max(min, interaction.startCrop.height + dy);
-             if (interaction.handle.includes('w')) {
-                 const w = interaction.startCrop.width - dx;
-                 if (w>=min) { c.x = interaction.startCrop.x + dx; c.width = w; }
-             }
-             if (interaction.handle.includes('n')) {
-                 const h = interaction.startCrop.height - dy;
-                 if (h>=min) { c.y = interaction.startCrop.y + dy; c.height = h; }
-             }
+             setEditedCrop(resizeCrop(start, interaction.handle, dx, dy, videoDim, minCropSize, lockedAspect(start)));
           }
-          setCropRegion(c);
+          setLoupeFocus({ x: (e.clientX - r.left) * sx, y: (e.clientY - r.top) * sy });
       };
-      const up = () => setInteraction(p => ({...p, type: 'idle'}));
+      const up = () => { setInteraction(p => ({...p, type: 'idle'})); setLoupeFocus(null); };
       if (interaction.type !== 'idle') { window.addEventListener('mousemove', move); window.addEventListener('mouseup', up); }
       return () => { window.removeEventListener('mousemove', move); window.removeEventListener('mouseup', up); };
-  }, [interaction, videoDim]);
+  }, [interaction, videoDim, editTarget, aspectLocked]);
+
+  // A move/resize drag of the map crop just ended. Without a stream the frame size is only a guess, so nothing is saved.
+  useEffect(() => {
+      if (interaction.type === 'idle' && stream && !editedPanel) rememberCrop(cropRegion);
+  }, [interaction.type]);
+
+  const StreamStatus = () => {
+      if (health === 'live') {
+          return <span className="flex items-center gap-1 text-[9px] text-green-500"><span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>LIVE</span>;
+      }
+      const attempts = reconnectAttemptRef.current;
+      // A frozen or black picture that isn't restarted automatically is only a warning; the status stays clickable
+      const gaveUp = needsRestart(health, restartOnStall) && (!captureSourceRef.current?.autoRestart || attempts >= MAX_RECONNECT_ATTEMPTS);
+      const label = isReconnecting ? `RECONNECTING (${attempts}/${MAX_RECONNECT_ATTEMPTS})` : gaveUp ? `${HEALTH_LABELS[health]} - CLICK TO RECONNECT` : HEALTH_LABELS[health];
+      const color = health === 'ended' || gaveUp ? 'text-red-400' : 'text-amber-400';
+      return (
+          <button onMouseDown={e => e.stopPropagation()} onClick={handleReconnectClick} disabled={isReconnecting} title="Restart the capture now" className={`flex items-center gap-1 text-[9px] ${color} hover:text-white disabled:cursor-default`}>
+              <span className="w-1.5 h-1.5 rounded-full bg-current animate-pulse"></span>{label}
+          </button>
+      );
+  };
 
   const Header = () => (
     <div ref={headerRef} className="h-8 bg-neutral-900 border-b border-neutral-800 flex items-center justify-between px-3 shrink-0 select-none cursor-move">
-        <div className="flex items-center gap-2 text-amber-500 font-bold tracking-wider text-xs">DEADLOCK COMPANION</div>
+        <div className="flex items-center gap-2 text-amber-500 font-bold tracking-wider text-xs">
+            DEADLOCK COMPANION
+            {stream && <StreamStatus />}
+        </div>
         <div className="flex items-center gap-1">
              <button onMouseDown={e => e.stopPropagation()} onClick={() => windowInstance.current.minimize()} className="p-1 hover:bg-neutral-800 rounded text-neutral-400"><div className="w-3 h-0.5 bg-current translate-y-1"></div></button>
              <button onMouseDown={e => e.stopPropagation()} onClick={() => windowInstance.current.close()} className="p-1 hover:bg-red-900/50 rounded text-neutral-400 hover:text-red-400"><XIcon size={14} /></button>
@@ -185,7 +783,7 @@ const DesktopWindow = () => {
     </div>
   );
 
-  if (!stream) {
+  if (!stream && !referenceImage) {
       return (
           <div className="flex flex-col h-full w-full bg-neutral-950 border border-neutral-800">
               <Header />
@@ -195,36 +793,133 @@ const DesktopWindow = () => {
                   <p className="text-neutral-500 text-xs text-center mb-6 max-w-[200px]">
                       If auto-detect fails, select the game screen manually.
                   </p>
-                  <button onClick={manualCapture} className="px-6 py-3 border border-amber-600/50 bg-amber-900/20 hover:bg-amber-600 text-amber-500 hover:text-white text-sm font-bold uppercase rounded transition-colors shadow-lg">
+                  <button onClick={() => startCapture(manualCaptureSource())} className="px-6 py-3 border border-amber-600/50 bg-amber-900/20 hover:bg-amber-600 text-amber-500 hover:text-white text-sm font-bold uppercase rounded transition-colors shadow-lg">
                       Select Screen Manually
                   </button>
+                  <p className="text-neutral-500 text-xs text-center mt-8 mb-3 max-w-[200px]">
+                      Or plan on a static map between matches.
+                  </p>
+                  <div className="flex gap-2">
+                      <button onClick={openReferenceMap} className="px-3 py-2 border border-neutral-700 hover:border-neutral-500 text-neutral-400 hover:text-white text-xs font-bold uppercase rounded transition-colors">
+                          Reference Map
+                      </button>
+                      <button onClick={() => referenceInputRef.current?.click()} className="px-3 py-2 border border-neutral-700 hover:border-neutral-500 text-neutral-400 hover:text-white text-xs font-bold uppercase rounded transition-colors">
+                          Load Image
+                      </button>
+                      <input ref={referenceInputRef} type="file" accept="image/*" onChange={handleReferenceFile} className="hidden"/>
+                  </div>
+                  <button onClick={() => recordingInputRef.current?.click()} title="Replay a recorded match or screenshot as if it were the game screen" className="mt-3 text-[10px] text-neutral-600 hover:text-neutral-300 uppercase font-bold">
+                      Open Recording
+                  </button>
+                  <input ref={recordingInputRef} type="file" accept="video/*,image/*" onChange={handleRecordingFile} className="hidden"/>
               </div>
           </div>
       );
   }
 
-  if (isSetupMode) {
+  if (isSetupMode && !referenceImage) {
       return (
           <div className="flex flex-col h-full w-full bg-neutral-900 text-neutral-100 border border-neutral-800">
              <Header />
              <header className="h-12 px-4 bg-neutral-950/80 border-b border-neutral-800 flex justify-between items-center shrink-0 z-20">
                  <span className="text-sm font-medium text-amber-500">Adjust Zone</span>
+                 <div className="flex items-center gap-1 text-xs">
+                     <select value={activePresetId ?? ''} onChange={e => applyPreset(e.target.value)} title="Crop preset" className="bg-neutral-800 rounded px-1.5 py-1 text-white outline-none max-w-[180px]">
+                         {!activePresetId && <option value="">Unsaved crop</option>}
+                         {cropPresets.map(p => (
+                             <option key={p.id} value={p.id}>{p.name === resolutionLabel(p.frame) ? p.name : `${p.name} (${resolutionLabel(p.frame)})`}</option>
+                         ))}
+                     </select>
+                     {activePresetId && <button onClick={() => deletePreset(activePresetId)} title="Delete preset" className="p-1 text-neutral-500 hover:text-red-400"><XIcon size={12}/></button>}
+                     <input value={presetName} onChange={e => setPresetName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') saveNamedPreset(); }} placeholder="Preset name..." className="w-28 bg-neutral-800 rounded px-1.5 py-1 text-white outline-none"/>
+                     <button onClick={saveNamedPreset} className="px-2 py-1 text-neutral-400 hover:text-white font-bold">SAVE</button>
+                 </div>
+                 <div className="flex items-center gap-1 text-xs">
+                     {minimapGuess ? (
+                         <>
+                             <span className="text-cyan-400">Minimap {Math.round(minimapGuess.confidence * 100)}% sure</span>
+                             <button onClick={acceptMinimapGuess} className="px-2 py-1 text-cyan-400 hover:text-white font-bold">USE</button>
+                             <button onClick={() => setMinimapGuess(null)} className="px-2 py-1 text-neutral-500 hover:text-white">Dismiss</button>
+                         </>
+                     ) : (
+                         <>
+                             {locatorMessage && <span className="text-neutral-500">{locatorMessage}</span>}
+                             <button onClick={autoFindMinimap} disabled={isLocating} className="px-2 py-1 text-neutral-400 hover:text-white font-bold disabled:opacity-50">{isLocating ? 'SEARCHING...' : 'AUTO-FIND MINIMAP'}</button>
+                         </>
+                     )}
+                 </div>
                  <div className="flex gap-2">
-                     <button onClick={() => setStream(null)} className="px-3 py-1 text-xs text-neutral-500 hover:text-white">Reset</button>
+                     <button onClick={stopCapture} className="px-3 py-1 text-xs text-neutral-500 hover:text-white">Reset</button>
                      <button onClick={() => setIsSetupMode(false)} className="px-4 py-1.5 bg-green-600 text-white text-xs font-bold rounded hover:bg-green-500">Confirm</button>
                  </div>
              </header>
+             <div className="h-8 px-4 bg-neutral-950/60 border-b border-neutral-800 flex items-center gap-1 shrink-0 text-xs">
+                 <span className="text-neutral-500 mr-1">Regions</span>
+                 {[{ id: 'map', name: 'Map' }, ...panels].map(r => (
+                     <div key={r.id} className={`flex items-center gap-1 px-2 py-0.5 rounded ${editTarget === r.id ? 'bg-amber-600 text-white' : 'bg-neutral-800 text-neutral-400 hover:text-white'}`}>
+                         {editingPanelName === r.id ? (
+                             <input
+                                 autoFocus
+                                 defaultValue={r.name}
+                                 onBlur={e => renamePanel(r.id, e.target.value.trim())}
+                                 onKeyDown={e => {
+                                     if (e.key === 'Enter') e.currentTarget.blur();
+                                     else if (e.key === 'Escape') setEditingPanelName(null);
+                                 }}
+                                 className="w-24 bg-neutral-900 px-1 text-white outline-none"
+                             />
+                         ) : (
+                             <button onClick={() => setEditTarget(r.id)} onDoubleClick={() => r.id !== 'map' && setEditingPanelName(r.id)} title={r.id === 'map' ? 'Main map (annotated)' : 'Double-click to rename'}>{r.name}</button>
+                         )}
+                         {r.id !== 'map' && <button onClick={() => removePanel(r.id)} title="Remove panel" className="hover:text-red-400"><XIcon size={10}/></button>}
+                     </div>
+                 ))}
+                 <button onClick={addPanel} title="Mirror another HUD area in its own panel" className="px-1.5 text-neutral-400 hover:text-white font-bold">+ PANEL</button>
+                 <div className="ml-auto flex items-center gap-1">
+                     {(['x', 'y', 'width', 'height'] as const).map(key => (
+                         <label key={key} className="flex items-center gap-0.5 text-neutral-500">
+                             {key === 'width' ? 'W' : key === 'height' ? 'H' : key.toUpperCase()}
+                             {/* Keyed by value so outside changes reset the field, while typing is only applied on commit */}
+                             <input
+                                 key={editedCrop[key]}
+                                 type="number"
+                                 defaultValue={editedCrop[key]}
+                                 onBlur={e => handleCropField(key, e.target.valueAsNumber)}
+                                 onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                 className="w-14 bg-neutral-800 rounded px-1 py-0.5 text-white outline-none"
+                             />
+                         </label>
+                     ))}
+                     <button onClick={toggleAspectLock} title={editedPanel ? 'Lock aspect ratio' : 'Lock to square'} className={`px-2 py-0.5 rounded font-bold ${aspectLocked ? 'bg-amber-600 text-white' : 'text-neutral-400 hover:text-white'}`}>{editedPanel ? 'LOCK' : '1:1'}</button>
+                 </div>
+             </div>
              <div className="flex-1 relative bg-black/90 flex items-center justify-center p-4 overflow-hidden">
                  <div className="relative border border-neutral-800 shadow-2xl">
-                     <video ref={setupVideoRef} autoPlay muted className="max-h-[calc(100vh-140px)] max-w-[calc(100vw-40px)] block" />
+                     <video ref={setupVideoRef} autoPlay muted className="max-h-[calc(100vh-172px)] max-w-[calc(100vw-40px)] block" />
+                     {[{ id: 'map', name: 'Map', crop: toFractions(cropRegion, videoDim) }, ...panels].filter(r => r.id !== editTarget).map(r => (
+                         <div key={r.id} onMouseDown={e => { e.preventDefault(); setEditTarget(r.id); }} title={`Edit ${r.name}`} className="absolute border border-dashed border-neutral-400/70 cursor-pointer z-10"
+                            style={{left: `${r.crop.x*100}%`, top: `${r.crop.y*100}%`, width: `${r.crop.width*100}%`, height: `${r.crop.height*100}%`}}>
+                             <span className="absolute top-0 left-0.5 text-[10px] text-neutral-300">{r.name}</span>
+                         </div>
+                     ))}
                      <div onMouseDown={handleBoxDown} className="absolute border border-amber-500 shadow-[0_0_0_9999px_rgba(0,0,0,0.8)] cursor-move z-10"
-                        style={{left: `${(cropRegion.x/videoDim.w)*100}%`, top: `${(cropRegion.y/videoDim.h)*100}%`, width: `${(cropRegion.width/videoDim.w)*100}%`, height: `${(cropRegion.height/videoDim.h)*100}%`}}>
-                        {['nw','ne','sw','se'].map((h: any) => (
-                            <div key={h} onMouseDown={handleHandleDown(h)} className={`absolute w-3 h-3 bg-amber-500 z-20 cursor-${h==='nw'||h==='se'?'nwse':'nesw'}-resize`} 
-                                style={{top: h[0]==='n'?'-6px':'auto', bottom: h[0]==='s'?'-6px':'auto', left: h[1]==='w'?'-6px':'auto', right: h[1]==='e'?'-6px':'auto'}} />
+                        style={{left: `${(editedCrop.x/videoDim.w)*100}%`, top: `${(editedCrop.y/videoDim.h)*100}%`, width: `${(editedCrop.width/videoDim.w)*100}%`, height: `${(editedCrop.height/videoDim.h)*100}%`}}>
+                        {CROP_HANDLES.map(h => (
+                            <div key={h} onMouseDown={handleHandleDown(h)} className={`absolute w-3 h-3 bg-amber-500 z-20 ${HANDLE_CURSORS[h]} ${h.length === 1 ? 'rounded-full' : ''}`}
+                                style={{
+                                    top: h.includes('n') ? '-6px' : h.includes('s') ? 'auto' : 'calc(50% - 6px)',
+                                    bottom: h.includes('s') ? '-6px' : 'auto',
+                                    left: h.includes('w') ? '-6px' : h.includes('e') ? 'auto' : 'calc(50% - 6px)',
+                                    right: h.includes('e') ? '-6px' : 'auto'
+                                }} />
                         ))}
                      </div>
+                     {minimapGuess && (
+                         <div className={`absolute border-2 border-dashed border-cyan-400 pointer-events-none z-20 ${minimapGuess.shape === 'circle' ? 'rounded-full' : ''}`}
+                            style={{left: `${(minimapGuess.crop.x/videoDim.w)*100}%`, top: `${(minimapGuess.crop.y/videoDim.h)*100}%`, width: `${(minimapGuess.crop.width/videoDim.w)*100}%`, height: `${(minimapGuess.crop.height/videoDim.h)*100}%`}} />
+                     )}
                  </div>
+                 <CropLoupe videoRef={setupVideoRef} crop={editedCrop} focus={loupeFocus} />
              </div>
           </div>
       );
@@ -234,29 +929,119 @@ const DesktopWindow = () => {
     <div className="flex flex-col h-full w-full bg-neutral-950 font-sans border border-neutral-800">
         <Header />
         <div className="flex flex-1 overflow-hidden">
-            <aside className="w-14 bg-neutral-900 border-r border-neutral-800 flex flex-col items-center py-3 gap-3 shrink-0 z-10">
-                <div className="flex flex-wrap gap-1 justify-center px-1 mb-2">
-                    {['#ef4444', '#22c55e', '#eab308', '#3b82f6', '#ffffff'].map(c => (
+            <aside className="w-14 bg-neutral-900 border-r border-neutral-800 flex flex-col items-center py-3 gap-3 shrink-0 z-10 overflow-y-auto">
+                <div className="flex flex-wrap gap-1 justify-center px-1">
+                    {palette.map(c => (
                         <button key={c} onClick={() => setSelectedColor(c)} className={`w-4 h-4 rounded-full border ${selectedColor===c?'border-white scale-125':'border-transparent'}`} style={{backgroundColor:c}}/>
                     ))}
                 </div>
+                <div className="flex gap-1 justify-center items-center h-4">
+                    {WIDTH_OPTIONS.map(w => (
+                        <button key={w} onClick={() => setStrokeWidth(w)} title={`Width ${w}px`} className={`flex items-center justify-center w-3.5 h-3.5 rounded ${strokeWidth===w?'bg-neutral-700':''}`}>
+                            <div className="rounded-full" style={{width: w + 1, height: w + 1, backgroundColor: selectedColor}}/>
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-1 justify-center items-center h-4 mb-2">
+                    {OPACITY_OPTIONS.map(o => (
+                        <button key={o} onClick={() => setStrokeOpacity(o)} title={`Opacity ${o * 100}%`} className={`w-3.5 h-3.5 rounded-sm border ${strokeOpacity===o?'border-white':'border-neutral-700'}`} style={{backgroundColor: selectedColor, opacity: o}}/>
+                    ))}
+                </div>
+                <ToolButton active={activeTool===ToolType.SELECT} onClick={() => setActiveTool(ToolType.SELECT)} icon={<PointerIcon/>}/>
                 <ToolButton active={activeTool===ToolType.PEN} onClick={() => setActiveTool(ToolType.PEN)} icon={<PenIcon/>}/>
-                <ToolButton active={activeTool===ToolType.MARKER} onClick={() => setActiveTool(ToolType.MARKER)} icon={<div className="w-3 h-3 rounded-full bg-red-500 border border-white"/>}/>
-                <ToolButton onClick={() => {setDrawings([]); setMarkers([]);}} icon={<TrashIcon/>} variant="danger"/>
+                <ToolButton active={activeTool===ToolType.ARROW} onClick={() => setActiveTool(ToolType.ARROW)} icon={<ArrowIcon/>}/>
+                <ToolButton active={activeTool===ToolType.ELLIPSE} onClick={() => setActiveTool(ToolType.ELLIPSE)} icon={<CircleIcon/>}/>
+                <ToolButton active={activeTool===ToolType.RECT} onClick={() => setActiveTool(ToolType.RECT)} icon={<SquareIcon/>}/>
+                <ToolButton active={activeTool===ToolType.TEXT} onClick={() => setActiveTool(ToolType.TEXT)} icon={<TextIcon/>}/>
+                <ToolButton active={activeTool===ToolType.PING} onClick={() => setActiveTool(ToolType.PING)} icon={<PingIcon/>}/>
+                <ToolButton active={isTemporary} onClick={() => setIsTemporary(!isTemporary)} icon={<TimerIcon/>}/>
+                <button onClick={() => setTtlSeconds(TTL_OPTIONS[(TTL_OPTIONS.indexOf(ttlSeconds) + 1) % TTL_OPTIONS.length])} title="Ping / temporary lifetime" className="text-[10px] font-bold text-neutral-400 hover:text-white">{ttlSeconds}s</button>
+                <ToolButton active={activeTool===ToolType.ERASER} onClick={() => setActiveTool(ToolType.ERASER)} icon={<EraserIcon/>}/>
+                <ToolButton active={activeTool===ToolType.MARKER} onClick={() => setActiveTool(ToolType.MARKER)} icon={<div className="w-3 h-3 rounded-full border border-white" style={{backgroundColor: MARKER_TYPES[selectedMarkerType].color}}/>}/>
+                {activeTool===ToolType.MARKER && <MarkerPalette selected={selectedMarkerType} onSelect={setSelectedMarkerType}/>}
+                <ToolButton onClick={history.undo} disabled={!history.canUndo} icon={<UndoIcon/>}/>
+                <ToolButton onClick={history.redo} disabled={!history.canRedo} icon={<RedoIcon/>}/>
+                <ToolButton active={openPanel==='layers'} onClick={() => togglePanel('layers')} icon={<LayersIcon/>}/>
+                <ToolButton active={openPanel==='plans'} onClick={() => togglePanel('plans')} icon={<FolderIcon/>}/>
+                <ToolButton active={openPanel==='playbooks' || !!playbook} onClick={() => togglePanel('playbooks')} icon={<BookIcon/>}/>
+                <ToolButton onClick={() => importInputRef.current?.click()} icon={<UploadIcon/>}/>
+                <ToolButton onClick={handleExportPlan} icon={<DownloadIcon/>}/>
+                <button onClick={() => handleExportImage('png')} title="Export map as PNG" className="text-[10px] font-bold text-neutral-400 hover:text-white">PNG</button>
+                <button onClick={() => handleExportImage('svg')} title="Export map as SVG" className="text-[10px] font-bold text-neutral-400 hover:text-white">SVG</button>
+                <ToolButton active={openPanel==='display' || !isNeutral(imageFilters)} onClick={() => togglePanel('display')} icon={<ContrastIcon/>}/>
+                <ToolButton active={orientation.rotation !== 0} onClick={() => setOrientation(rotateClockwise)} icon={<RotateIcon/>}/>
+                <div className="flex gap-1 justify-center">
+                    <button onClick={() => setOrientation(flipHorizontal)} title="Flip map horizontally" className={`text-xs font-bold ${isFlippedHorizontally(orientation) ? 'text-amber-400' : 'text-neutral-400 hover:text-white'}`}>⇆</button>
+                    <button onClick={() => setOrientation(flipVertical)} title="Flip map vertically" className={`text-xs font-bold ${isFlippedVertically(orientation) ? 'text-amber-400' : 'text-neutral-400 hover:text-white'}`}>⇅</button>
+                </div>
+                <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportPlan} className="hidden"/>
+                <ToolButton onClick={clearAnnotations} icon={<TrashIcon/>} variant="danger"/>
                 
                 <div className="mt-auto flex flex-col gap-2 w-full px-1.5">
-                    {hasApiKey && (
+                    {hasAnalyzer && (
                         <>
                             <button onClick={() => setIsMuted(!isMuted)} className={`p-2 rounded hover:bg-neutral-800 ${isMuted?'text-red-400':'text-neutral-400'}`}>{isMuted?<VolumeXIcon/>:<VolumeIcon/>}</button>
                             <button onClick={handleAnalyze} disabled={isAnalyzing} className={`p-2 rounded ${isAnalyzing?'bg-neutral-800 text-neutral-500':'bg-purple-900/40 text-purple-300 hover:bg-purple-800/60'}`}>{isAnalyzing?<div className="w-4 h-4 rounded-full border-2 border-current border-t-transparent animate-spin"/>:<BrainIcon/>}</button>
                         </>
                     )}
+                    <button onClick={() => togglePanel('analyzer')} title="AI analyzer settings" className={`p-2 rounded hover:bg-neutral-800 ${openPanel==='analyzer'?'text-amber-400':'text-neutral-400'}`}><SettingsIcon/></button>
+                    <button onClick={() => setFpsCap(FPS_CAP_OPTIONS[(FPS_CAP_OPTIONS.indexOf(fpsCap) + 1) % FPS_CAP_OPTIONS.length])} title="Map frame rate limit" className="text-[10px] font-bold text-neutral-400 hover:text-white">{fpsCap ? `${fpsCap}fps` : 'MAX'}</button>
+                    <button onClick={() => setRestartOnStall(!restartOnStall)} title="Restart the capture when the picture stays frozen or black" className={`text-[10px] font-bold ${restartOnStall ? 'text-amber-400' : 'text-neutral-400 hover:text-white'}`}>AUTO</button>
                     <div className="h-px bg-neutral-800 w-full my-1"/>
-                    <button onClick={() => setIsSetupMode(true)} className="p-2 text-neutral-500 hover:text-white"><MonitorIcon/></button>
+                    <button onClick={() => referenceImage ? setReferenceImage(null) : setIsSetupMode(true)} title={referenceImage ? 'Leave reference map' : 'Adjust capture zone'} className="p-2 text-neutral-500 hover:text-white"><MonitorIcon/></button>
                 </div>
             </aside>
             <main className="flex-1 relative bg-black overflow-hidden flex flex-col">
-                <MapCanvas videoStream={stream} cropRegion={cropRegion} drawings={drawings} setDrawings={setDrawings} markers={markers} setMarkers={setMarkers} activeTool={activeTool} selectedColor={selectedColor} onCanvasRef={(r: any) => canvasRef.current=r} />
+                <div className="flex-1 min-h-0">
+                    <MapCanvas videoStream={stream} cropRegion={cropRegion} backgroundImage={referenceImage} orientation={orientation} imageFilters={imageFilters} layers={visibleLayers} activeLayerId={activeLayer.id} drawings={activeLayer.drawings} setDrawings={setDrawings} markers={activeLayer.markers} setMarkers={setMarkers} readOnly={!activeView.visible || activeView.locked} pings={pings} setPings={setPings} pingTtl={ttlSeconds * 1000} annotationTtl={isTemporary ? ttlSeconds * 1000 : null} activeTool={activeTool} selectedColor={selectedColor} strokeWidth={strokeWidth} strokeOpacity={strokeOpacity} markerType={selectedMarkerType} fpsCap={fpsCap} onCanvasRef={(r: any) => canvasRef.current=r} onVideoRef={v => { videoRef.current = v; }} onEditBegin={history.beginBatch} onEditEnd={history.endBatch} />
+                </div>
+                {playbook && (
+                    <PlaybookTimeline
+                        playbook={playbook}
+                        stepIndex={stepIndex}
+                        onSelectStep={handleSelectStep}
+                        onAddStep={handleAddStep}
+                        onRemoveStep={handleRemoveStep}
+                        onChangeLabel={label => setPlaybook(prev => prev && updateStep(prev, stepIndex, step => ({ ...step, label })))}
+                        onChangeNote={note => setPlaybook(prev => prev && updateStep(prev, stepIndex, step => ({ ...step, note })))}
+                        onSave={handleSavePlaybook}
+                        onExport={handleExportPlaybook}
+                        onClose={handleClosePlaybook}
+                    />
+                )}
+                {openPanel === 'plans' && (
+                    <PlanLibrary onSave={handleSavePlan} onLoad={handleLoadPlan} onClose={() => setOpenPanel(null)} />
+                )}
+                {openPanel === 'playbooks' && (
+                    <PlaybookLibrary onCreate={handleCreatePlaybook} onOpen={handleOpenPlaybook} onClose={() => setOpenPanel(null)} />
+                )}
+                {openPanel === 'analyzer' && (
+                    <AnalyzerSettingsPanel settings={analyzerSettings} onChange={setAnalyzerSettings} onClose={() => setOpenPanel(null)} />
+                )}
+                {openPanel === 'display' && (
+                    <DisplayPanel filters={imageFilters} onChange={setImageFilters} onClose={() => setOpenPanel(null)} />
+                )}
+                {openPanel === 'layers' && (
+                    <LayerPanel
+                        layers={layers}
+                        views={layerViews}
+                        activeLayerId={activeLayer.id}
+                        onSelect={setActiveLayerId}
+                        onToggleVisible={id => updateLayerView(id, { visible: !(layerViews[id] || DEFAULT_LAYER_VIEW).visible })}
+                        onToggleLocked={id => updateLayerView(id, { locked: !(layerViews[id] || DEFAULT_LAYER_VIEW).locked })}
+                        onMove={(id, direction) => history.set(prev => moveLayer(prev, id, direction))}
+                        onClear={id => history.set(prev => updateLayer(prev, id, clearLayer))}
+                        onRename={(id, name) => history.set(prev => updateLayer(prev, id, l => l.name === name ? l : { ...l, name }))}
+                        onAdd={addLayer}
+                        onRemove={removeLayer}
+                        onClose={() => setOpenPanel(null)}
+                    />
+                )}
+                {notice && (
+                    <div className={`absolute bottom-4 left-1/2 -translate-x-1/2 max-w-[90%] bg-neutral-900/95 border px-3 py-2 rounded shadow-2xl text-xs z-50 ${notice.isError ? 'border-red-500/60 text-red-300' : 'border-green-500/50 text-green-300'}`}>
+                        {notice.text}
+                    </div>
+                )}
                 {latestAlert && latestAlert.text && (
                     <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-neutral-900/95 border border-purple-500/50 text-white px-4 py-3 rounded shadow-2xl backdrop-blur-md flex items-center gap-3 z-50">
                         <div className="text-purple-400"><BrainIcon/></div>
@@ -264,13 +1049,21 @@ const DesktopWindow = () => {
                     </div>
                 )}
             </main>
+            {stream && !referenceImage && panels.length > 0 && (
+                <aside className="relative shrink-0 flex flex-col gap-1 p-1 bg-neutral-950 border-l border-neutral-800 overflow-y-auto" style={{ width: panelColumnWidth }}>
+                    <div onPointerDown={handleColumnResize} title="Drag to resize" className="absolute left-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-amber-500/50 z-10"/>
+                    {panels.map(panel => (
+                        <CapturePanel key={panel.id} name={panel.name} videoStream={stream} cropRegion={toPixels(panel.crop, videoDim)} />
+                    ))}
+                </aside>
+            )}
         </div>
     </div>
   );
 };
 
-const ToolButton = ({active, onClick, icon, variant='default'}:any) => (
-    <button onClick={onClick} className={`flex items-center justify-center p-2 rounded-lg w-full h-10 transition-all ${active?'bg-amber-600 text-white shadow':''} ${!active&&variant==='default'?'text-neutral-400 hover:bg-neutral-800 hover:text-white':''} ${!active&&variant==='danger'?'text-neutral-600 hover:bg-red-900/20 hover:text-red-400':''}`}>{icon}</button>
+const ToolButton = ({active, onClick, icon, variant='default', disabled=false}:any) => (
+    <button onClick={onClick} disabled={disabled} className={`flex items-center justify-center p-2 rounded-lg w-full h-10 transition-all disabled:opacity-30 disabled:pointer-events-none ${active?'bg-amber-600 text-white shadow':''} ${!active&&variant==='default'?'text-neutral-400 hover:bg-neutral-800 hover:text-white':''} ${!active&&variant==='danger'?'text-neutral-600 hover:bg-red-900/20 hover:text-red-400':''}`}>{icon}</button>
 );
 
 export default DesktopWindow;